@@ -9,10 +9,18 @@
  */
 
 import type * as auth from "../auth.js";
+import type * as chats from "../chats.js";
+import type * as crons from "../crons.js";
 import type * as getGitHubToken from "../getGitHubToken.js";
 import type * as getUserId from "../getUserId.js";
 import type * as http from "../http.js";
+import type * as rateLimit from "../rateLimit.js";
 import type * as sandbox from "../sandbox.js";
+import type * as sandboxCleanup from "../sandboxCleanup.js";
+import type * as serverSecret from "../serverSecret.js";
+import type * as shares from "../shares.js";
+import type * as streams from "../streams.js";
+import type * as usage from "../usage.js";
 
 import type {
   ApiFromModules,
@@ -30,10 +38,18 @@ import type {
  */
 declare const fullApi: ApiFromModules<{
   auth: typeof auth;
+  chats: typeof chats;
+  crons: typeof crons;
   getGitHubToken: typeof getGitHubToken;
   getUserId: typeof getUserId;
   http: typeof http;
+  rateLimit: typeof rateLimit;
   sandbox: typeof sandbox;
+  sandboxCleanup: typeof sandboxCleanup;
+  serverSecret: typeof serverSecret;
+  shares: typeof shares;
+  streams: typeof streams;
+  usage: typeof usage;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
 
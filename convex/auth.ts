@@ -47,6 +47,14 @@ export const createAuth = (
   });
 };
 
+// Resolve the Better Auth user id for the current ctx, or null when signed out
+export const getAuthUserId = async (
+  ctx: GenericCtx<DataModel>
+): Promise<string | null> => {
+  const user = await authComponent.safeGetAuthUser(ctx);
+  return user?._id ?? null;
+};
+
 // Example helper to read current user from Convex
 export const getCurrentUser = query({
   args: {},
@@ -0,0 +1,203 @@
+import { query, mutation, type QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "./auth";
+import { deleteSharesForChat } from "./shares";
+import { deleteStreamsForChat } from "./streams";
+
+const TITLE_MAX_LENGTH = 80;
+
+const messageValidator = v.object({
+  id: v.string(),
+  role: v.union(v.literal("system"), v.literal("user"), v.literal("assistant")),
+  parts: v.string(),
+  metadata: v.optional(v.string()),
+});
+
+// Use the first user text part as the chat title
+function deriveTitle(
+  messages: Array<{ role: string; parts: string }>
+): string {
+  for (const message of messages) {
+    if (message.role !== "user") continue;
+    try {
+      const parts = JSON.parse(message.parts) as Array<{
+        type?: string;
+        text?: string;
+      }>;
+      const text = parts.find((part) => part.type === "text")?.text?.trim();
+      if (text) {
+        return text.length > TITLE_MAX_LENGTH
+          ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…`
+          : text;
+      }
+    } catch {
+      // Ignore malformed parts and keep looking
+    }
+  }
+  return "New Chat";
+}
+
+async function getChatDoc(ctx: QueryCtx, chatId: string) {
+  return await ctx.db
+    .query("chats")
+    .withIndex("by_chatId", (q) => q.eq("chatId", chatId))
+    .first();
+}
+
+export const listChats = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const chats = await ctx.db
+      .query("chats")
+      .withIndex("by_userId_updatedAt", (q) => q.eq("userId", userId))
+      .order("desc")
+      .take(100);
+
+    return chats.map((chat) => ({
+      chatId: chat.chatId,
+      title: chat.title,
+      updatedAt: chat.updatedAt,
+    }));
+  },
+});
+
+export const getChat = query({
+  args: { chatId: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const chat = await getChatDoc(ctx, args.chatId);
+    if (!chat || !userId || chat.userId !== userId) {
+      return null;
+    }
+
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_chatId_order", (q) => q.eq("chatId", args.chatId))
+      .collect();
+
+    return {
+      chatId: chat.chatId,
+      title: chat.title,
+      createdAt: chat.createdAt,
+      updatedAt: chat.updatedAt,
+      messages: messages.map((message) => ({
+        id: message.messageId,
+        role: message.role,
+        parts: message.parts,
+        metadata: message.metadata,
+      })),
+    };
+  },
+});
+
+// Set a chat's history to `messageIds`, storing the given new or changed
+// messages. Unchanged messages are sent by ID only, so a save stays within
+// Convex's argument size limit; large histories are saved over several calls.
+// Returns the IDs in the history that are neither stored nor given, which the
+// caller must send in a follow-up call.
+export const saveChat = mutation({
+  args: {
+    chatId: v.string(),
+    messageIds: v.array(v.string()),
+    messages: v.array(messageValidator),
+  },
+  handler: async (ctx, args): Promise<{ missingIds: string[] }> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthenticated");
+    }
+
+    const now = Date.now();
+    const existing = await getChatDoc(ctx, args.chatId);
+    if (existing && existing.userId !== userId) {
+      throw new Error("Chat not found");
+    }
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { updatedAt: now });
+    } else {
+      await ctx.db.insert("chats", {
+        chatId: args.chatId,
+        userId,
+        title: deriveTitle(args.messages),
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    const stored = await ctx.db
+      .query("messages")
+      .withIndex("by_chatId_order", (q) => q.eq("chatId", args.chatId))
+      .collect();
+    const storedById = new Map(stored.map((doc) => [doc.messageId, doc]));
+    const givenById = new Map(
+      args.messages.map((message) => [message.id, message])
+    );
+    const keepIds = new Set(args.messageIds);
+
+    // Drop messages that are no longer part of the history (e.g. after regenerate)
+    for (const doc of stored) {
+      if (!keepIds.has(doc.messageId)) {
+        await ctx.db.delete(doc._id);
+      }
+    }
+
+    const missingIds: string[] = [];
+    for (const [order, messageId] of args.messageIds.entries()) {
+      const doc = storedById.get(messageId);
+      const message = givenById.get(messageId);
+      if (doc) {
+        if (message) {
+          await ctx.db.patch(doc._id, {
+            parts: message.parts,
+            metadata: message.metadata,
+            order,
+          });
+        } else if (doc.order !== order) {
+          await ctx.db.patch(doc._id, { order });
+        }
+      } else if (message) {
+        await ctx.db.insert("messages", {
+          chatId: args.chatId,
+          messageId,
+          role: message.role,
+          parts: message.parts,
+          metadata: message.metadata,
+          order,
+          createdAt: now,
+        });
+      } else {
+        missingIds.push(messageId);
+      }
+    }
+
+    return { missingIds };
+  },
+});
+
+export const deleteChat = mutation({
+  args: { chatId: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const chat = await getChatDoc(ctx, args.chatId);
+    if (!chat || !userId || chat.userId !== userId) {
+      throw new Error("Chat not found");
+    }
+
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_chatId_order", (q) => q.eq("chatId", args.chatId))
+      .collect();
+    for (const message of messages) {
+      await ctx.db.delete(message._id);
+    }
+    await deleteStreamsForChat(ctx, args.chatId);
+    await deleteSharesForChat(ctx, args.chatId);
+    await ctx.db.delete(chat._id);
+  },
+});
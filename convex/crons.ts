@@ -0,0 +1,12 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+crons.interval(
+  "stop expired sandboxes",
+  { minutes: 5 },
+  internal.sandboxCleanup.stopExpiredSandboxes
+);
+
+export default crons;
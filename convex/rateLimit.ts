@@ -0,0 +1,98 @@
+import { action, internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { assertServerSecret, getCallerKey } from "./serverSecret";
+
+// Single source of truth for request limits, shared with /api/chat.
+// Each limit is a token bucket holding `limit` tokens that refills evenly over `windowMs`.
+export const RATE_LIMITS = {
+  chatAuthenticated: {
+    limit: 50,
+    windowMs: 60 * 60 * 1000,
+    description: "50 messages per hour for signed in users",
+  },
+  chatAnonymous: {
+    limit: 10,
+    windowMs: 60 * 60 * 1000,
+    description: "10 messages per hour for signed out users",
+  },
+} as const;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+
+type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterMs: number;
+  resetAt: number;
+};
+
+const rateLimitNameValidator = v.union(
+  v.literal("chatAuthenticated"),
+  v.literal("chatAnonymous")
+);
+
+// Called by /api/chat only, so clients can't drain another caller's bucket
+export const consumeRateLimit = action({
+  args: {
+    secret: v.string(),
+    name: rateLimitNameValidator,
+    // Hashed client IP for signed-out requests; signed-in requests are keyed by user ID
+    clientKey: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<RateLimitResult> => {
+    assertServerSecret(args.secret);
+    return await ctx.runMutation(internal.rateLimit.consumeBucket, {
+      name: args.name,
+      key: await getCallerKey(ctx, args.clientKey),
+    });
+  },
+});
+
+export const consumeBucket = internalMutation({
+  args: {
+    name: rateLimitNameValidator,
+    key: v.string(),
+  },
+  handler: async (ctx, args): Promise<RateLimitResult> => {
+    const config = RATE_LIMITS[args.name];
+    const { key } = args;
+    const now = Date.now();
+    const refillPerMs = config.limit / config.windowMs;
+    const bucket = await ctx.db
+      .query("rateLimits")
+      .withIndex("by_name_key", (q) => q.eq("name", args.name).eq("key", key))
+      .first();
+
+    const available = bucket
+      ? Math.min(
+          config.limit,
+          bucket.tokens + (now - bucket.updatedAt) * refillPerMs
+        )
+      : config.limit;
+    const allowed = available >= 1;
+    const tokens = allowed ? available - 1 : available;
+
+    if (bucket) {
+      await ctx.db.patch(bucket._id, { tokens, updatedAt: now });
+    } else {
+      await ctx.db.insert("rateLimits", {
+        name: args.name,
+        key,
+        tokens,
+        updatedAt: now,
+      });
+    }
+
+    return {
+      allowed,
+      limit: config.limit,
+      remaining: Math.floor(tokens),
+      // When the next request will be allowed (0 if allowed now)
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+      // When the bucket will be full again
+      resetAt: now + Math.ceil((config.limit - tokens) / refillPerMs),
+    };
+  },
+});
@@ -1,50 +1,203 @@
-import { query, mutation } from "./_generated/server";
+import {
+  action,
+  internalQuery,
+  internalMutation,
+  type ActionCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
 import { v } from "convex/values";
+import { assertServerSecret, getCallerKey } from "./serverSecret";
 
-export const getSandboxByChatId = query({
-  args: { chatId: v.string() },
-  handler: async (ctx, args) => {
-    const sandbox = await ctx.db
-      .query("sandboxes")
-      .withIndex("by_chatId", (q) => q.eq("chatId", args.chatId))
-      .first();
+type SandboxRecord = {
+  sandboxId: string;
+  repositoryUrl: string | null;
+  createdAt: number;
+  expiresAt: number;
+};
+
+// Only /api/chat may read or write sandbox records: it proves itself with the
+// server secret, and the sandbox IDs it records come from Sandbox.create
+const requestArgs = {
+  secret: v.string(),
+  chatId: v.string(),
+  // Hashed client IP for signed-out requests
+  clientKey: v.optional(v.string()),
+};
+
+// Signed-in sandboxes belong to the user; signed-out ones to the hashed client IP
+async function getOwnerKey(
+  ctx: ActionCtx,
+  { secret, clientKey }: { secret: string; clientKey?: string }
+) {
+  assertServerSecret(secret);
+  return await getCallerKey(ctx, clientKey);
+}
 
-    return sandbox;
+async function getSandboxDoc(ctx: QueryCtx, chatId: string) {
+  return await ctx.db
+    .query("sandboxes")
+    .withIndex("by_chatId", (q) => q.eq("chatId", chatId))
+    .first();
+}
+
+export const getSandboxForRequest = action({
+  args: requestArgs,
+  handler: async (ctx, args): Promise<SandboxRecord | null> => {
+    const ownerKey = await getOwnerKey(ctx, args);
+    return await ctx.runQuery(internal.sandbox.getSandboxByChatId, {
+      chatId: args.chatId,
+      ownerKey,
+    });
   },
 });
 
-export const setSandboxForChatId = mutation({
+export const recordSandboxForRequest = action({
+  args: { ...requestArgs, sandboxId: v.string(), expiresAt: v.number() },
+  handler: async (ctx, args): Promise<void> => {
+    const ownerKey = await getOwnerKey(ctx, args);
+    await ctx.runMutation(internal.sandbox.setSandboxForChatId, {
+      chatId: args.chatId,
+      ownerKey,
+      sandboxId: args.sandboxId,
+      expiresAt: args.expiresAt,
+    });
+  },
+});
+
+export const recordSandboxRepositoryForRequest = action({
+  args: { ...requestArgs, repositoryUrl: v.string() },
+  handler: async (ctx, args): Promise<void> => {
+    const ownerKey = await getOwnerKey(ctx, args);
+    await ctx.runMutation(internal.sandbox.setSandboxRepository, {
+      chatId: args.chatId,
+      ownerKey,
+      repositoryUrl: args.repositoryUrl,
+    });
+  },
+});
+
+export const removeSandboxForRequest = action({
+  args: { ...requestArgs, sandboxId: v.string() },
+  handler: async (ctx, args): Promise<void> => {
+    const ownerKey = await getOwnerKey(ctx, args);
+    await ctx.runMutation(internal.sandbox.removeSandboxForChatId, {
+      chatId: args.chatId,
+      ownerKey,
+      sandboxId: args.sandboxId,
+    });
+  },
+});
+
+// The owner's live sandbox for a chat, or null
+export const getSandboxByChatId = internalQuery({
+  args: { chatId: v.string(), ownerKey: v.string() },
+  handler: async (ctx, args): Promise<SandboxRecord | null> => {
+    const sandbox = await getSandboxDoc(ctx, args.chatId);
+    if (
+      !sandbox ||
+      sandbox.ownerKey !== args.ownerKey ||
+      sandbox.expiresAt <= Date.now()
+    ) {
+      return null;
+    }
+
+    return {
+      sandboxId: sandbox.sandboxId,
+      repositoryUrl: sandbox.repositoryUrl ?? null,
+      createdAt: sandbox.createdAt,
+      expiresAt: sandbox.expiresAt,
+    };
+  },
+});
+
+// Record a newly created sandbox for a chat, replacing any previous one
+export const setSandboxForChatId = internalMutation({
   args: {
     chatId: v.string(),
+    ownerKey: v.string(),
     sandboxId: v.string(),
-    repositoryUrl: v.string(),
+    expiresAt: v.number(),
   },
   handler: async (ctx, args) => {
-    const existing = await ctx.db
-      .query("sandboxes")
-      .withIndex("by_chatId", (q) => q.eq("chatId", args.chatId))
-      .first();
+    const existing = await getSandboxDoc(ctx, args.chatId);
 
     if (existing) {
-      // Update existing sandbox
+      if (existing.ownerKey !== args.ownerKey) {
+        throw new Error("Chat not found");
+      }
       await ctx.db.patch(existing._id, {
         sandboxId: args.sandboxId,
-        repositoryUrl: args.repositoryUrl,
+        repositoryUrl: undefined,
         createdAt: Date.now(),
+        expiresAt: args.expiresAt,
       });
       return existing._id;
-    } else {
-      // Create new sandbox mapping
-      return await ctx.db.insert("sandboxes", {
-        chatId: args.chatId,
-        sandboxId: args.sandboxId,
-        repositoryUrl: args.repositoryUrl,
-        createdAt: Date.now(),
-      });
     }
+
+    return await ctx.db.insert("sandboxes", {
+      chatId: args.chatId,
+      ownerKey: args.ownerKey,
+      sandboxId: args.sandboxId,
+      createdAt: Date.now(),
+      expiresAt: args.expiresAt,
+    });
   },
 });
 
+// Remember which repository was cloned into a chat's sandbox
+export const setSandboxRepository = internalMutation({
+  args: {
+    chatId: v.string(),
+    ownerKey: v.string(),
+    repositoryUrl: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const sandbox = await getSandboxDoc(ctx, args.chatId);
+    if (sandbox && sandbox.ownerKey === args.ownerKey) {
+      await ctx.db.patch(sandbox._id, { repositoryUrl: args.repositoryUrl });
+    }
+  },
+});
 
+// Forget a chat's sandbox once it has died, unless it was already replaced
+export const removeSandboxForChatId = internalMutation({
+  args: {
+    chatId: v.string(),
+    ownerKey: v.string(),
+    sandboxId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const sandbox = await getSandboxDoc(ctx, args.chatId);
+    if (
+      sandbox &&
+      sandbox.ownerKey === args.ownerKey &&
+      sandbox.sandboxId === args.sandboxId
+    ) {
+      await ctx.db.delete(sandbox._id);
+    }
+  },
+});
 
+export const listExpiredSandboxes = internalQuery({
+  args: { now: v.number(), limit: v.number() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("sandboxes")
+      .withIndex("by_expiresAt", (q) => q.lt("expiresAt", args.now))
+      .take(args.limit);
+  },
+});
 
+// Delete stopped sandboxes' records, skipping any replaced in the meantime
+export const deleteExpiredSandboxes = internalMutation({
+  args: { ids: v.array(v.id("sandboxes")) },
+  handler: async (ctx, args) => {
+    for (const id of args.ids) {
+      const sandbox = await ctx.db.get(id);
+      if (sandbox && sandbox.expiresAt <= Date.now()) {
+        await ctx.db.delete(id);
+      }
+    }
+  },
+});
@@ -0,0 +1,80 @@
+"use node";
+
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Sandbox } from "@vercel/sandbox";
+
+// Sandboxes stopped per cron run
+const BATCH_SIZE = 50;
+
+// Whether the Vercel API reported the sandbox as not found
+function isNotFound(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "response" in error &&
+    (error as { response?: { status?: unknown } }).response?.status === 404
+  );
+}
+
+// Stop sandboxes past their expiry and forget them. Vercel also stops them at
+// their timeout; this covers sandboxes whose timeout was extended or that
+// outlived a crashed server instance.
+export const stopExpiredSandboxes = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    const expired = await ctx.runQuery(internal.sandbox.listExpiredSandboxes, {
+      now: Date.now(),
+      limit: BATCH_SIZE,
+    });
+    if (expired.length === 0) {
+      return;
+    }
+
+    // Convex has no Vercel OIDC token, so explicit credentials are required
+    const { VERCEL_TOKEN, VERCEL_TEAM_ID, VERCEL_PROJECT_ID } = process.env;
+    if (!VERCEL_TOKEN || !VERCEL_TEAM_ID || !VERCEL_PROJECT_ID) {
+      throw new Error(
+        `Cannot stop ${expired.length} expired sandboxes: set VERCEL_TOKEN, VERCEL_TEAM_ID and VERCEL_PROJECT_ID in the Convex deployment`
+      );
+    }
+    const credentials = {
+      token: VERCEL_TOKEN,
+      teamId: VERCEL_TEAM_ID,
+      projectId: VERCEL_PROJECT_ID,
+    };
+
+    // Only records whose sandbox is confirmed stopped or gone are deleted;
+    // the rest are retried on the next run
+    const stopped = [];
+    for (const record of expired) {
+      try {
+        const sandbox = await Sandbox.get({
+          sandboxId: record.sandboxId,
+          ...credentials,
+        });
+        if (sandbox.status !== "stopped" && sandbox.status !== "failed") {
+          await sandbox.stop();
+        }
+        stopped.push(record._id);
+      } catch (error) {
+        if (isNotFound(error)) {
+          stopped.push(record._id);
+        } else {
+          console.error(`Failed to stop sandbox ${record.sandboxId}:`, error);
+        }
+      }
+    }
+
+    if (stopped.length > 0) {
+      await ctx.runMutation(internal.sandbox.deleteExpiredSandboxes, {
+        ids: stopped,
+      });
+    }
+    if (stopped.length < expired.length) {
+      throw new Error(
+        `Failed to stop ${expired.length - stopped.length} of ${expired.length} expired sandboxes`
+      );
+    }
+  },
+});
@@ -2,13 +2,128 @@ import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
 export default defineSchema({
+  // Vercel sandboxes by chat, so any server instance can reattach to them
   sandboxes: defineTable({
     chatId: v.string(),
+    // "user:<id>" for signed-in users, "ip:<hashed address>" for signed-out ones
+    ownerKey: v.string(),
     sandboxId: v.string(),
-    repositoryUrl: v.string(),
+    // Last repository cloned into the sandbox
+    repositoryUrl: v.optional(v.string()),
     createdAt: v.number(),
-  }).index("by_chatId", ["chatId"]),
-});
+    expiresAt: v.number(),
+  })
+    .index("by_chatId", ["chatId"])
+    .index("by_expiresAt", ["expiresAt"]),
 
+  chats: defineTable({
+    chatId: v.string(),
+    userId: v.string(),
+    title: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_chatId", ["chatId"])
+    .index("by_userId_updatedAt", ["userId", "updatedAt"]),
 
+  messages: defineTable({
+    chatId: v.string(),
+    messageId: v.string(),
+    role: v.union(
+      v.literal("system"),
+      v.literal("user"),
+      v.literal("assistant")
+    ),
+    // JSON-encoded AppUIMessage parts. Tool outputs are raw GitHub/sandbox
+    // payloads whose keys (e.g. "$schema") aren't always valid Convex fields.
+    parts: v.string(),
+    // JSON-encoded message metadata (model and token usage of assistant turns)
+    metadata: v.optional(v.string()),
+    order: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_chatId_order", ["chatId", "order"])
+    .index("by_chatId_messageId", ["chatId", "messageId"]),
+
+  // Token buckets for the built-in rate limiter (see rateLimit.ts)
+  rateLimits: defineTable({
+    name: v.string(),
+    key: v.string(),
+    tokens: v.number(),
+    updatedAt: v.number(),
+  }).index("by_name_key", ["name", "key"]),
+
+  // Read-only snapshots of a chat published under an unguessable share ID
+  shares: defineTable({
+    shareId: v.string(),
+    chatId: v.string(),
+    userId: v.string(),
+    title: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_shareId", ["shareId"])
+    .index("by_chatId", ["chatId"]),
 
+  sharedMessages: defineTable({
+    shareId: v.string(),
+    messageId: v.string(),
+    role: v.union(
+      v.literal("system"),
+      v.literal("user"),
+      v.literal("assistant")
+    ),
+    parts: v.string(),
+    order: v.number(),
+  }).index("by_shareId_order", ["shareId", "order"]),
+
+  // In-flight /api/chat generations, kept so clients can reconnect and replay
+  streams: defineTable({
+    chatId: v.string(),
+    streamId: v.string(),
+    userId: v.string(),
+    status: v.union(
+      v.literal("active"),
+      v.literal("done"),
+      v.literal("error")
+    ),
+    chunkCount: v.number(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_chatId", ["chatId"])
+    .index("by_streamId", ["streamId"]),
+
+  // Raw SSE text of a stream, batched and ordered by seq
+  streamChunks: defineTable({
+    streamId: v.string(),
+    seq: v.number(),
+    data: v.string(),
+  }).index("by_streamId_seq", ["streamId", "seq"]),
+
+  // Token usage of each /api/chat request, keyed by "user:<id>" or "ip:<address>"
+  usage: defineTable({
+    subject: v.string(),
+    chatId: v.optional(v.string()),
+    modelId: v.string(),
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    reasoningTokens: v.number(),
+    cachedInputTokens: v.number(),
+    totalTokens: v.number(),
+    costUsd: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_subject_createdAt", ["subject", "createdAt"])
+    .index("by_chatId", ["chatId"]),
+
+  // Running totals per subject and UTC day ("2025-01-31") or month ("2025-01"),
+  // checked against the quotas in usage.ts
+  usageTotals: defineTable({
+    subject: v.string(),
+    period: v.string(),
+    totalTokens: v.number(),
+    costUsd: v.number(),
+    requests: v.number(),
+    updatedAt: v.number(),
+  }).index("by_subject_period", ["subject", "period"]),
+});
@@ -0,0 +1,35 @@
+import type { ActionCtx } from "./_generated/server";
+import { getAuthUserId } from "./auth";
+
+// Guards functions that only the Next.js server may call. CONVEX_SERVER_SECRET
+// must be set to the same value in the Convex deployment and in the app.
+export function assertServerSecret(secret: string): void {
+  const expected = process.env.CONVEX_SERVER_SECRET;
+  if (!expected || secret.length !== expected.length) {
+    throw new Error("Unauthorized");
+  }
+  // Compare in constant time
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= secret.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  if (difference !== 0) {
+    throw new Error("Unauthorized");
+  }
+}
+
+// Who a server-called function acts for: the signed-in user, or the hashed
+// client IP /api/chat passes for a signed-out caller
+export async function getCallerKey(
+  ctx: ActionCtx,
+  clientKey: string | undefined
+): Promise<string> {
+  const userId = await getAuthUserId(ctx);
+  if (userId) {
+    return `user:${userId}`;
+  }
+  if (!clientKey) {
+    throw new Error("Signed-out requests need a client key");
+  }
+  return `ip:${clientKey}`;
+}
@@ -0,0 +1,206 @@
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { nanoid } from "nanoid";
+import { getAuthUserId } from "./auth";
+
+// Share IDs are the only thing protecting a share, so they are generated here
+// rather than accepted from the client
+const SHARE_ID_LENGTH = 21;
+
+async function deleteShareDoc(ctx: MutationCtx, shareId: string) {
+  const share = await ctx.db
+    .query("shares")
+    .withIndex("by_shareId", (q) => q.eq("shareId", shareId))
+    .first();
+  if (!share) return;
+
+  const messages = await ctx.db
+    .query("sharedMessages")
+    .withIndex("by_shareId_order", (q) => q.eq("shareId", shareId))
+    .collect();
+  for (const message of messages) {
+    await ctx.db.delete(message._id);
+  }
+  await ctx.db.delete(share._id);
+}
+
+// Revoke every share link created from a chat
+export async function deleteSharesForChat(ctx: MutationCtx, chatId: string) {
+  const shares = await ctx.db
+    .query("shares")
+    .withIndex("by_chatId", (q) => q.eq("chatId", chatId))
+    .collect();
+  for (const share of shares) {
+    await deleteShareDoc(ctx, share.shareId);
+  }
+}
+
+// Snapshot the current messages of a chat under a new share ID
+export const createShare = mutation({
+  args: {
+    chatId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthenticated");
+    }
+
+    const chat = await ctx.db
+      .query("chats")
+      .withIndex("by_chatId", (q) => q.eq("chatId", args.chatId))
+      .first();
+    if (!chat || chat.userId !== userId) {
+      throw new Error("Chat not found");
+    }
+
+    const shareId = nanoid(SHARE_ID_LENGTH);
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_chatId_order", (q) => q.eq("chatId", args.chatId))
+      .collect();
+
+    await ctx.db.insert("shares", {
+      shareId,
+      chatId: args.chatId,
+      userId,
+      title: chat.title,
+      createdAt: Date.now(),
+    });
+    for (const message of messages) {
+      await ctx.db.insert("sharedMessages", {
+        shareId,
+        messageId: message.messageId,
+        role: message.role,
+        parts: message.parts,
+        order: message.order,
+      });
+    }
+
+    return shareId;
+  },
+});
+
+// Public: anyone with the share ID can read the snapshot
+export const getShare = query({
+  args: { shareId: v.string() },
+  handler: async (ctx, args) => {
+    const share = await ctx.db
+      .query("shares")
+      .withIndex("by_shareId", (q) => q.eq("shareId", args.shareId))
+      .first();
+    if (!share) {
+      return null;
+    }
+
+    const messages = await ctx.db
+      .query("sharedMessages")
+      .withIndex("by_shareId_order", (q) => q.eq("shareId", args.shareId))
+      .collect();
+
+    return {
+      shareId: share.shareId,
+      title: share.title,
+      createdAt: share.createdAt,
+      messages: messages.map((message) => ({
+        id: message.messageId,
+        role: message.role,
+        parts: message.parts,
+      })),
+    };
+  },
+});
+
+export const listSharesForChat = query({
+  args: { chatId: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const shares = await ctx.db
+      .query("shares")
+      .withIndex("by_chatId", (q) => q.eq("chatId", args.chatId))
+      .collect();
+
+    return shares
+      .filter((share) => share.userId === userId)
+      .map((share) => ({
+        shareId: share.shareId,
+        createdAt: share.createdAt,
+      }));
+  },
+});
+
+export const revokeShare = mutation({
+  args: { shareId: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const share = await ctx.db
+      .query("shares")
+      .withIndex("by_shareId", (q) => q.eq("shareId", args.shareId))
+      .first();
+    if (!share || !userId || share.userId !== userId) {
+      throw new Error("Share not found");
+    }
+
+    await deleteShareDoc(ctx, args.shareId);
+  },
+});
+
+// Copy a shared snapshot into a new chat owned by the current user
+export const forkShare = mutation({
+  args: {
+    shareId: v.string(),
+    chatId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthenticated");
+    }
+
+    const share = await ctx.db
+      .query("shares")
+      .withIndex("by_shareId", (q) => q.eq("shareId", args.shareId))
+      .first();
+    if (!share) {
+      throw new Error("Share not found");
+    }
+
+    const existing = await ctx.db
+      .query("chats")
+      .withIndex("by_chatId", (q) => q.eq("chatId", args.chatId))
+      .first();
+    if (existing) {
+      throw new Error("Chat ID already exists");
+    }
+
+    const now = Date.now();
+    await ctx.db.insert("chats", {
+      chatId: args.chatId,
+      userId,
+      title: share.title,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const messages = await ctx.db
+      .query("sharedMessages")
+      .withIndex("by_shareId_order", (q) => q.eq("shareId", args.shareId))
+      .collect();
+    for (const message of messages) {
+      await ctx.db.insert("messages", {
+        chatId: args.chatId,
+        messageId: message.messageId,
+        role: message.role,
+        parts: message.parts,
+        order: message.order,
+        createdAt: now,
+      });
+    }
+
+    return args.chatId;
+  },
+});
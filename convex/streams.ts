@@ -0,0 +1,193 @@
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "./auth";
+
+// An active stream not written to for this long lost its generation (the
+// server instance died before finishing it) and is treated as dead.
+// persistStream touches live streams more often than this, even while a
+// long tool call produces no output.
+const STREAM_STALE_MS = 2 * 60 * 1000;
+
+async function getStreamDoc(ctx: MutationCtx, streamId: string) {
+  return await ctx.db
+    .query("streams")
+    .withIndex("by_streamId", (q) => q.eq("streamId", streamId))
+    .first();
+}
+
+// Remove every stream (and its chunks) recorded for a chat
+export async function deleteStreamsForChat(ctx: MutationCtx, chatId: string) {
+  const streams = await ctx.db
+    .query("streams")
+    .withIndex("by_chatId", (q) => q.eq("chatId", chatId))
+    .collect();
+
+  for (const stream of streams) {
+    const chunks = await ctx.db
+      .query("streamChunks")
+      .withIndex("by_streamId_seq", (q) => q.eq("streamId", stream.streamId))
+      .collect();
+    for (const chunk of chunks) {
+      await ctx.db.delete(chunk._id);
+    }
+    await ctx.db.delete(stream._id);
+  }
+}
+
+export const createStream = mutation({
+  args: {
+    chatId: v.string(),
+    streamId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Unauthenticated");
+    }
+
+    const chat = await ctx.db
+      .query("chats")
+      .withIndex("by_chatId", (q) => q.eq("chatId", args.chatId))
+      .first();
+    if (!chat || chat.userId !== userId) {
+      throw new Error("Chat not found");
+    }
+
+    // Only the latest generation of a chat can be resumed
+    await deleteStreamsForChat(ctx, args.chatId);
+
+    const now = Date.now();
+    await ctx.db.insert("streams", {
+      chatId: args.chatId,
+      streamId: args.streamId,
+      userId,
+      status: "active",
+      chunkCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const appendStreamChunks = mutation({
+  args: {
+    streamId: v.string(),
+    chunks: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const stream = await getStreamDoc(ctx, args.streamId);
+    if (!stream || !userId || stream.userId !== userId) {
+      throw new Error("Stream not found");
+    }
+    if (stream.status !== "active") {
+      return;
+    }
+
+    for (const [index, data] of args.chunks.entries()) {
+      await ctx.db.insert("streamChunks", {
+        streamId: args.streamId,
+        seq: stream.chunkCount + index,
+        data,
+      });
+    }
+
+    await ctx.db.patch(stream._id, {
+      chunkCount: stream.chunkCount + args.chunks.length,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Mark a stream as still being generated while no chunks arrive
+export const touchStream = mutation({
+  args: { streamId: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const stream = await getStreamDoc(ctx, args.streamId);
+    if (!stream || !userId || stream.userId !== userId) {
+      throw new Error("Stream not found");
+    }
+    if (stream.status === "active") {
+      await ctx.db.patch(stream._id, { updatedAt: Date.now() });
+    }
+  },
+});
+
+export const finishStream = mutation({
+  args: {
+    streamId: v.string(),
+    status: v.union(v.literal("done"), v.literal("error")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const stream = await getStreamDoc(ctx, args.streamId);
+    if (!stream || !userId || stream.userId !== userId) {
+      throw new Error("Stream not found");
+    }
+
+    await ctx.db.patch(stream._id, {
+      status: args.status,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// The generation a client should reconnect to, or null if nothing is running
+export const getActiveStream = query({
+  args: { chatId: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const stream = await ctx.db
+      .query("streams")
+      .withIndex("by_chatId", (q) => q.eq("chatId", args.chatId))
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .first();
+    if (
+      !stream ||
+      stream.userId !== userId ||
+      Date.now() - stream.updatedAt > STREAM_STALE_MS
+    ) {
+      return null;
+    }
+
+    return { streamId: stream.streamId };
+  },
+});
+
+export const getStreamChunks = query({
+  args: {
+    streamId: v.string(),
+    fromSeq: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const stream = await ctx.db
+      .query("streams")
+      .withIndex("by_streamId", (q) => q.eq("streamId", args.streamId))
+      .first();
+    if (!stream || !userId || stream.userId !== userId) {
+      return null;
+    }
+
+    const chunks = await ctx.db
+      .query("streamChunks")
+      .withIndex("by_streamId_seq", (q) =>
+        q.eq("streamId", args.streamId).gte("seq", args.fromSeq)
+      )
+      .collect();
+
+    return {
+      status: stream.status,
+      // Still "active" but abandoned by the server instance generating it
+      stale:
+        stream.status === "active" &&
+        Date.now() - stream.updatedAt > STREAM_STALE_MS,
+      chunks: chunks.map((chunk) => chunk.data),
+    };
+  },
+});
@@ -0,0 +1,200 @@
+import {
+  action,
+  internalMutation,
+  internalQuery,
+  type ActionCtx,
+  type QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v, type Infer } from "convex/values";
+import { assertServerSecret, getCallerKey } from "./serverSecret";
+
+// Token quotas per user tier, shared with /api/chat.
+// Windows are UTC calendar days and months; usage is counted in total tokens
+// (input + output) as reported by the model provider.
+export const USAGE_QUOTAS = {
+  authenticated: {
+    dailyTokens: 2_000_000,
+    monthlyTokens: 20_000_000,
+    description:
+      "2M tokens per day and 20M tokens per month for signed in users",
+  },
+  anonymous: {
+    dailyTokens: 200_000,
+    monthlyTokens: 1_000_000,
+    description:
+      "200K tokens per day and 1M tokens per month for signed out users",
+  },
+} as const;
+
+export type UsageTier = keyof typeof USAGE_QUOTAS;
+
+const tokenUsageValidator = v.object({
+  inputTokens: v.number(),
+  outputTokens: v.number(),
+  reasoningTokens: v.number(),
+  cachedInputTokens: v.number(),
+  totalTokens: v.number(),
+});
+
+function getPeriods(now: number) {
+  const iso = new Date(now).toISOString();
+  const day = iso.slice(0, 10);
+  const month = iso.slice(0, 7);
+  const date = new Date(now);
+  const nextDay = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate() + 1
+  );
+  const nextMonth = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  return { day, month, nextDay, nextMonth };
+}
+
+const tierValidator = v.union(
+  v.literal("authenticated"),
+  v.literal("anonymous")
+);
+
+type QuotaStatus = {
+  tier: UsageTier;
+  allowed: boolean;
+  daily: { used: number; limit: number; resetAt: number };
+  monthly: { used: number; limit: number; resetAt: number };
+  resetAt: number;
+};
+
+// Signed-in usage is keyed by user ID, signed-out usage by hashed client IP.
+// The client key comes from /api/chat, which proves itself with the server secret.
+async function resolveSubject(ctx: ActionCtx, clientKey: string | undefined) {
+  const subject = await getCallerKey(ctx, clientKey);
+  const tier: UsageTier = subject.startsWith("user:")
+    ? "authenticated"
+    : "anonymous";
+  return { subject, tier };
+}
+
+// Token counts and costs must be finite and non-negative, or a caller could
+// rewind its own totals
+function assertValidUsage(
+  usage: Infer<typeof tokenUsageValidator>,
+  costUsd: number | undefined
+) {
+  for (const [name, value] of Object.entries({ ...usage, costUsd })) {
+    if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+      throw new Error(`Invalid usage: ${name} must be a non-negative number`);
+    }
+  }
+}
+
+async function getTotal(ctx: QueryCtx, subject: string, period: string) {
+  return await ctx.db
+    .query("usageTotals")
+    .withIndex("by_subject_period", (q) =>
+      q.eq("subject", subject).eq("period", period)
+    )
+    .first();
+}
+
+// Current daily/monthly consumption of the /api/chat caller against their quota
+export const getQuotaForRequest = action({
+  args: { secret: v.string(), clientKey: v.optional(v.string()) },
+  handler: async (ctx, args): Promise<QuotaStatus> => {
+    assertServerSecret(args.secret);
+    const { subject, tier } = await resolveSubject(ctx, args.clientKey);
+    return await ctx.runQuery(internal.usage.getQuotaStatus, { subject, tier });
+  },
+});
+
+export const getQuotaStatus = internalQuery({
+  args: { subject: v.string(), tier: tierValidator },
+  handler: async (ctx, args): Promise<QuotaStatus> => {
+    const { subject, tier } = args;
+    const quota = USAGE_QUOTAS[tier];
+    const { day, month, nextDay, nextMonth } = getPeriods(Date.now());
+    const [daily, monthly] = await Promise.all([
+      getTotal(ctx, subject, day),
+      getTotal(ctx, subject, month),
+    ]);
+    const dailyTokens = daily?.totalTokens ?? 0;
+    const monthlyTokens = monthly?.totalTokens ?? 0;
+    const dailyExceeded = dailyTokens >= quota.dailyTokens;
+    const monthlyExceeded = monthlyTokens >= quota.monthlyTokens;
+
+    return {
+      tier,
+      allowed: !dailyExceeded && !monthlyExceeded,
+      daily: { used: dailyTokens, limit: quota.dailyTokens, resetAt: nextDay },
+      monthly: {
+        used: monthlyTokens,
+        limit: quota.monthlyTokens,
+        resetAt: nextMonth,
+      },
+      // When the exhausted window(s) reset (0 if allowed now)
+      resetAt: monthlyExceeded ? nextMonth : dailyExceeded ? nextDay : 0,
+    };
+  },
+});
+
+// Record the token usage of one /api/chat request for its caller
+export const recordRequestUsage = action({
+  args: {
+    secret: v.string(),
+    clientKey: v.optional(v.string()),
+    chatId: v.optional(v.string()),
+    modelId: v.string(),
+    usage: tokenUsageValidator,
+    costUsd: v.optional(v.number()),
+  },
+  handler: async (ctx, { secret, clientKey, ...args }): Promise<void> => {
+    assertServerSecret(secret);
+    const { subject } = await resolveSubject(ctx, clientKey);
+    await ctx.runMutation(internal.usage.recordUsage, { subject, ...args });
+  },
+});
+
+export const recordUsage = internalMutation({
+  args: {
+    subject: v.string(),
+    chatId: v.optional(v.string()),
+    modelId: v.string(),
+    usage: tokenUsageValidator,
+    costUsd: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    assertValidUsage(args.usage, args.costUsd);
+    const { subject } = args;
+    const now = Date.now();
+
+    await ctx.db.insert("usage", {
+      subject,
+      chatId: args.chatId,
+      modelId: args.modelId,
+      ...args.usage,
+      costUsd: args.costUsd,
+      createdAt: now,
+    });
+
+    const { day, month } = getPeriods(now);
+    for (const period of [day, month]) {
+      const total = await getTotal(ctx, subject, period);
+      if (total) {
+        await ctx.db.patch(total._id, {
+          totalTokens: total.totalTokens + args.usage.totalTokens,
+          costUsd: total.costUsd + (args.costUsd ?? 0),
+          requests: total.requests + 1,
+          updatedAt: now,
+        });
+      } else {
+        await ctx.db.insert("usageTotals", {
+          subject,
+          period,
+          totalTokens: args.usage.totalTokens,
+          costUsd: args.costUsd ?? 0,
+          requests: 1,
+          updatedAt: now,
+        });
+      }
+    }
+  },
+});
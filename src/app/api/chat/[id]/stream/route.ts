@@ -0,0 +1,26 @@
+import { UI_MESSAGE_STREAM_HEADERS } from "ai";
+import { NextRequest } from "next/server";
+import { getToken } from "@/lib/auth-server";
+import { createResumedStream, getActiveStreamId } from "@/lib/stream-store";
+
+// Resumed streams follow the original generation, which can run up to 800 seconds
+export const maxDuration = 800;
+
+// Reconnect endpoint used by useChat({ resume: true })
+// Responds with 204 when the chat has no generation in progress
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const token = await getToken();
+
+  const streamId = await getActiveStreamId(id, token);
+  if (!streamId || !token) {
+    return new Response(null, { status: 204 });
+  }
+
+  return new Response(createResumedStream(streamId, token), {
+    headers: UI_MESSAGE_STREAM_HEADERS,
+  });
+}
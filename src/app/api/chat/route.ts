@@ -1,19 +1,73 @@
-import { stepCountIs, streamText, convertToModelMessages } from "ai";
-import type { AppUIMessage } from "@/types/chat";
+import {
+  stepCountIs,
+  streamText,
+  convertToModelMessages,
+  createIdGenerator,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  generateId,
+} from "ai";
+import type { AppMessageMetadata, AppUIMessage } from "@/types/chat";
 import { gateway } from "@ai-sdk/gateway";
 import { createGitHubApiProxyTool } from "@/tools/github-api";
-import { sandboxTools } from "@/tools/sandbox";
+import { createGitHubSearchTool } from "@/tools/search-github";
+import { createGitHubGraphqlTool } from "@/tools/github-graphql";
+import { createGitHubPrStatusTool } from "@/tools/github-pr-status";
+import { createGitHubActionsFailureTool } from "@/tools/github-actions-failure";
+import { createRepoTreeTool } from "@/tools/repo-tree";
+import { createFileHistoryTool } from "@/tools/file-history";
+import { createCompareRefsTool } from "@/tools/compare-refs";
+import { createReleaseNotesTool } from "@/tools/release-notes";
+import { createRunSandboxCommandTool } from "@/tools/sandbox";
+import { createReadToolResultTool } from "@/tools/read-tool-result";
 import { webSearch as webSearchTool } from "@/tools/exa-search";
 import { fetchPages } from "@/tools/exa-fetch";
-import { NextRequest } from "next/server";
+import { NextRequest, after } from "next/server";
 import { getGitHubToken, getUserId } from "@/lib/auth";
-import { checkRateLimit } from "@vercel/firewall";
+import { getToken } from "@/lib/auth-server";
+import { saveChat } from "@/lib/chat-store";
+import { persistStream } from "@/lib/stream-store";
+import { getRequestOwnerKey } from "@/lib/request-owner";
+import {
+  checkRateLimit,
+  getClientKey,
+  getRateLimitDescription,
+  getRateLimitHeaders,
+} from "@/lib/rate-limit";
+import {
+  checkUsageQuota,
+  getQuotaDescription,
+  recordUsage,
+} from "@/lib/usage";
 import { Octokit } from "@octokit/rest";
 import { openai } from "@ai-sdk/openai";
+import { compactHistory } from "@/lib/compact-history";
+import {
+  DEFAULT_MODEL_ID,
+  getHistoryBudget,
+  getModelConfig,
+  isModelId,
+  type ModelConfig,
+} from "@/lib/models";
+
+function getLanguageModel(config: ModelConfig) {
+  switch (config.provider) {
+    case "gateway":
+      return gateway(config.providerModelId);
+    case "openai":
+      return openai.responses(config.providerModelId);
+  }
+}
+
+// "enabled": web tools are registered, "off": the user didn't ask for them,
+// "requires-auth": the user asked for them but isn't signed in
+type WebSearchMode = "enabled" | "off" | "requires-auth";
 
 function buildSystemPrompt(
   isAuthenticated: boolean,
+  webSearchMode: WebSearchMode,
   currentTime: string,
+  elidedToolResults: number,
   userInfo?: {
     login: string;
     name?: string | null;
@@ -47,7 +101,9 @@ When the user asks about "my" repositories, PRs, issues, or other GitHub activit
 `
     : "";
 
-  const webSearchSection = isAuthenticated
+  const webSearchEnabled = webSearchMode === "enabled";
+
+  const webSearchSection = webSearchEnabled
     ? `
 **webSearch** - Web search with Exa (requires authentication):
 - Find documentation sites, tutorials, articles not on GitHub
@@ -59,17 +115,64 @@ When the user asks about "my" repositories, PRs, issues, or other GitHub activit
 - Fetch complete content of web pages after webSearch
 - Use when snippets aren't enough - get full documentation pages
 `
-    : "";
+    : webSearchMode === "requires-auth"
+      ? `
+**Web search is unavailable**: the user turned it on but isn't signed in, so webSearch and fetchPages aren't registered. The user is shown a notice about this above your answer; answer from GitHub sources and mention where web sources would have helped.
+`
+      : "";
 
   const toolRequirements = `
 YOUR TOOLS - USE THEM ALL:
 
 **githubApi** - GitHub REST API access (always available):
 - Search repositories, code, issues, PRs, users, commits, topics
-- Read repository contents (README.md, docs, files)
+- Read repository contents (README.md, docs, files) - returned as decoded text with line numbers
 - Access user data, PRs, check runs, and any GitHub resource
 - Works without auth for public data (lower rate limits), requires auth for user-specific endpoints
 - If you get a 401, inform user they need to sign in; if rate limited, suggest signing in for higher limits
+- Responses are trimmed to common fields (repos, issues, PRs, check runs) and drop *_url API links; pass fields=["items[].full_name", ...] to pick fields, or fields=["*"] for everything
+- List endpoints return one page; pass paginate={maxPages, maxItems} to get more, and continue with cursor=nextCursor while pagination.truncated is true
+- Results include "rateLimit", the remaining budget per resource (core, search, code_search, graphql). Requests are queued and spaced for you; when a budget runs low, make fewer, broader requests
+
+**githubSearch** - Structured GitHub search (always available):
+- Typed search over repositories, issues/PRs, code, users, commits, topics and discussions with normalized results
+- Code search results include highlighted fragments around each match
+- Discussions search requires authentication
+
+**githubGraphql** - Read-only GitHub GraphQL queries (requires authentication):
+- One query instead of many REST calls for nested data: discussions with comments, PR review threads, PR → checks → annotations, project boards
+- Queries only (no mutations); every connection needs first/last, and expensive queries are rejected before being sent
+- Results include the query's rate limit cost and remaining points
+
+**githubPrStatus** - Pull requests with CI status (signed-in user by default):
+- One call for "my open PRs", "which of my PRs are failing CI?" and similar questions
+- Returns each PR's repo, head SHA, combined CI state, failing checks with annotation summaries, and links
+- Filter by repo, org, state, draft or onlyFailing; pass user to check someone else's public PRs
+
+**githubActionsFailure** - Why a GitHub Actions job failed (requires authentication):
+- Pass owner, repo and a jobId, checkRunId (e.g. a failing check from githubPrStatus) or runId
+- Returns the workflow file, failing step, ##[error] lines, test failure blocks and the log lines before the failure
+- Use it to answer "why is my PR red?" end-to-end instead of guessing from check conclusions
+
+**repoTree** - Repository file tree (always available):
+- One call for a repository's structure: an indented tree with file sizes and per-directory file counts and sizes
+- Filter with include/exclude globs (e.g. include=["*.ts"], exclude=["node_modules", "dist/"]), start from a path, pick a ref, limit maxDepth
+- Use it before reading files instead of listing /contents one directory at a time
+
+**fileHistory** - When and why a file or lines changed (always available; blame requires authentication):
+- Commits touching a path, or only a line range (startLine/endLine) followed back through earlier versions
+- Each commit comes with its pull requests and the diff hunks that touched the lines
+- blame=true adds the commit and PR that last changed each block of lines
+
+**compareRefs** - Structured diffs (always available):
+- Compare two branches, tags or commits (base/head) or show a pull request's changes (pullNumber)
+- Returns a summary with renames and binary files, plus per-file hunks with added/deleted counts; the user sees it as a rendered diff
+- Narrow with include/exclude globs or summaryOnly=true; prefer this over raw /compare or /pulls/{n}/files patches
+
+**releaseNotes** - What changed between versions (always available):
+- GitHub releases plus matching CHANGELOG sections between from (exclusive) and to (inclusive), ordered by semver
+- Handles "v" prefixes, partial versions ("5", "5.1") and monorepo tags like "pkg@1.2.3" (pass package)
+- Flags breaking changes, deprecations and major version bumps per version; use it for upgrade questions
 
 ${webSearchSection}
 **runSandboxCommand** - Execute commands (always available):
@@ -77,17 +180,30 @@ ${webSearchSection}
 - Explore codebases, read files, run code, test implementations
 - Clone repos, install deps, run scripts - full command-line access
 
+**readToolResult** - Read large tool results (always available):
+- githubApi and runSandboxCommand results over the size budget come back with "truncated": true, a preview and a "handle"
+- Page through (mode="page"), grep (mode="grep") or select fields (mode="fields") of the full result by handle
+- Prefer this over repeating the original request within this response; handles from earlier messages are no longer available
+
 ${authStatus}
 
 **Tool usage strategy:**
 - Use tools proactively - don't wait for permission, use them to answer questions thoroughly
-- Combine tools: GitHub search${isAuthenticated ? " + web search" : ""} + sandbox exploration for comprehensive answers
+- Combine tools: GitHub search${webSearchEnabled ? " + web search" : ""} + sandbox exploration for comprehensive answers
 - Use parallel calls when possible - fetch multiple things simultaneously
-${isAuthenticated ? "- For integration questions: research each component with BOTH GitHub and web search" : ""}
+${webSearchEnabled ? "- For integration questions: research each component with BOTH GitHub and web search" : ""}
 - When documentation is unclear: use sandbox to clone repos and read files directly`;
 
+  const historySection =
+    elidedToolResults > 0
+      ? `
+CONVERSATION HISTORY:
+${elidedToolResults} older tool result(s) were removed from the history to save context and show as { elided: true }. The tool inputs are still there - if you need one of those results again, call the same tool with the same input instead of guessing its content.
+`
+      : "";
+
   return `${toolRequirements}
-${userInfoSection}
+${userInfoSection}${historySection}
 
 CURRENT TIME: ${currentTime}
 
@@ -126,15 +242,15 @@ RESEARCH WORKFLOW FOR UNFAMILIAR TOPICS:
 When asked about ANY unfamiliar topic (library, framework, API, concept, etc.):
 
 1. Find the repository: endpoint="/search/repositories", params={q: "topic-name"} (look for official repo)
-2. Read README.md first: endpoint="/repos/{owner}/{repo}/contents/README.md" (decode base64 content)
+2. Read README.md first: endpoint="/repos/{owner}/{repo}/contents/README.md"
 3. Check for docs: endpoint="/repos/{owner}/{repo}/contents/docs" or endpoint="/search/code", params={q: "extension:md repo:owner/repo-name"}
-${isAuthenticated ? '4. Use webSearch for official documentation sites if the topic has a website\n5. Use fetchPages to get full content of relevant documentation pages\n6. Search code/issues within the repo: endpoint="/search/code", params={q: "repo:owner/repo-name function-name"}\n7. Only THEN provide answers based on actual understanding' : '4. Search code/issues within the repo: endpoint="/search/code", params={q: "repo:owner/repo-name function-name"}\n5. Only THEN provide answers based on actual understanding'}
+${webSearchEnabled ? '4. Use webSearch for official documentation sites if the topic has a website\n5. Use fetchPages to get full content of relevant documentation pages\n6. Search code/issues within the repo: endpoint="/search/code", params={q: "repo:owner/repo-name function-name"}\n7. Only THEN provide answers based on actual understanding' : '4. Search code/issues within the repo: endpoint="/search/code", params={q: "repo:owner/repo-name function-name"}\n5. Only THEN provide answers based on actual understanding'}
 
 For integration questions (e.g., "How to integrate X with Y?"):
 - If components are ambiguous (e.g., multiple "WorkflowSDK" products exist), ask a SHORT clarifying question and STOP - wait for the user's confirmation before proceeding. Do NOT assume an answer and provide a full response.
 - Only after receiving clarification: Identify ALL components mentioned
 - Research EACH component independently (do this in parallel when possible)
-${isAuthenticated ? "- Use BOTH GitHub search AND web search" : "- Use GitHub search"}
+${webSearchEnabled ? "- Use BOTH GitHub search AND web search" : "- Use GitHub search"}
 - Only AFTER understanding ALL components: analyze how they work together and search for existing integrations
 - Provide a concise answer, not a comprehensive architecture document unless explicitly requested
 
@@ -169,15 +285,13 @@ The githubApi tool allows you to make GET requests to ANY GitHub REST API endpoi
 - Get PRs: endpoint="/repos/{owner}/{repo}/pulls", params={owner: "octocat", repo: "Hello-World", state: "open"}
 - Get PR details: endpoint="/repos/{owner}/{repo}/pulls/{pull_number}", params={owner: "octocat", repo: "Hello-World", pull_number: 123}
 - Get check runs: endpoint="/repos/{owner}/{repo}/commits/{ref}/check-runs", params={owner: "octocat", repo: "Hello-World", ref: "abc123"}
-- Read README: endpoint="/repos/{owner}/{repo}/contents/README.md", params={owner: "octocat", repo: "Hello-World"} (decode base64 content)
+- Read README: endpoint="/repos/{owner}/{repo}/contents/README.md", params={owner: "octocat", repo: "Hello-World"}
 - List docs: endpoint="/repos/{owner}/{repo}/contents/docs", params={owner: "octocat", repo: "Hello-World"}
 
 **Complex query example - "What are my PRs open with CI failures?":**
-1. Get user: endpoint="/user" → get username
-2. Search PRs: endpoint="/search/issues", params={q: "is:pr author:USERNAME state:open"}
-3. For each PR: endpoint="/repos/{owner}/{repo}/pulls/{pull_number}" → get head SHA
-4. Get check runs: endpoint="/repos/{owner}/{repo}/commits/{ref}/check-runs" → filter failures
-5. Present results with inline links: "[repo PR #123](link) - 'title'"
+1. Call githubPrStatus with onlyFailing=true (it resolves the signed-in user and checks every PR)
+2. Present results with inline links: "[repo PR #123](link) - 'title'" and the failing checks with their annotations
+3. If the user wants to know why, call githubActionsFailure with the failing check's ID to read the job log
 
 **Notes:**
 - Only GET requests supported (no POST, PUT, DELETE)
@@ -196,7 +310,7 @@ Sandbox tools allow you to explore repositories directly by cloning and executin
   - Clone repos: command="git", args=["clone", "https://github.com/owner/repo.git"]
   - Install deps: command="bun", args=["install"] or command="npm", args=["install"]
   - Run scripts: command="bun", args=["run", "build"] or command="npm", args=["test"]
-  - Optional chatId parameter (defaults to "main"), working directory: /vercel/sandbox
+  - Each conversation has its own sandbox, working directory: /vercel/sandbox
 
 **When to use sandboxes:**
 - If it's faster or requires fewer queries than using GitHub API (e.g., reading multiple files, exploring directory structures)
@@ -244,42 +358,107 @@ export async function POST(req: NextRequest) {
     console.log("route.ts User ID:", userId);
     const isAuthenticated = !!userId;
 
-    // Use different rate limit IDs for authenticated vs unauthenticated users
-    const rateLimitId = isAuthenticated
-      ? "chat-rate-limit-authenticated" // 50 requests/hour
-      : "chat-rate-limit-unauthenticated"; // 10 requests/hour
+    // Resolve the Convex token up front - onFinish runs after the request scope has ended
+    const convexToken = isAuthenticated ? await getToken() : undefined;
 
-    const { rateLimited, error } = await checkRateLimit(rateLimitId, {
-      request: req,
-      // For authenticated users, use user ID as the rate limit key
-      // For unauthenticated users, Vercel will use IP address automatically
-      ...(isAuthenticated && userId ? { rateLimitKey: userId } : {}),
+    // Signed-out callers are told apart by client IP; without one they would
+    // all share a single rate limit, quota and sandbox
+    const clientKey = getClientKey(req);
+    if (!isAuthenticated && !clientKey) {
+      return new Response(
+        JSON.stringify({
+          error: "Client not identified",
+          message:
+            "This server can't identify signed-out clients. Please sign in with GitHub to continue.",
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const rateLimitName = isAuthenticated
+      ? "chatAuthenticated"
+      : "chatAnonymous";
+    const rateLimit = await checkRateLimit({
+      name: rateLimitName,
+      req,
+      clientKey,
+      token: convexToken,
+      userId,
     });
+    const rateLimitHeaders = rateLimit ? getRateLimitHeaders(rateLimit) : {};
 
-    if (rateLimited) {
+    if (rateLimit && !rateLimit.allowed) {
+      const limitText = getRateLimitDescription(rateLimitName);
       return new Response(
         JSON.stringify({
           error: "Rate limit exceeded",
           message: isAuthenticated
-            ? "You have exceeded the rate limit of 50 requests per hour. Please try again later."
-            : "You have exceeded the rate limit of 10 requests per hour. Please sign in for higher limits or try again later.",
+            ? `You have been rate limited. The limit is ${limitText}. Please try again later.`
+            : `You have been rate limited. The limit is ${limitText}. Please sign in for higher limits or try again later.`,
         }),
         {
           status: 429,
-          headers: { "Content-Type": "application/json" },
+          headers: {
+            "Content-Type": "application/json",
+            ...rateLimitHeaders,
+          },
+        }
+      );
+    }
+
+    const quota = await checkUsageQuota({
+      clientKey,
+      token: convexToken,
+    });
+    if (!quota) {
+      return new Response(
+        JSON.stringify({
+          error: "Usage tracking unavailable",
+          message:
+            "Usage quotas can't be checked right now. Please try again in a moment.",
+        }),
+        {
+          status: 503,
+          headers: { "Content-Type": "application/json", ...rateLimitHeaders },
+        }
+      );
+    }
+    if (!quota.allowed) {
+      const quotaText = getQuotaDescription(quota.tier);
+      return new Response(
+        JSON.stringify({
+          error: "Usage quota exceeded",
+          message: isAuthenticated
+            ? `You have used up your token quota. The limit is ${quotaText}. It resets ${new Date(quota.resetAt).toUTCString()}.`
+            : `You have used up your token quota. The limit is ${quotaText}. Please sign in for a higher quota or try again after ${new Date(quota.resetAt).toUTCString()}.`,
+        }),
+        {
+          status: 429,
+          headers: {
+            "Content-Type": "application/json",
+            "Retry-After": String(
+              Math.max(0, Math.ceil((quota.resetAt - Date.now()) / 1000))
+            ),
+            ...rateLimitHeaders,
+          },
         }
       );
     }
 
     const {
+      id: chatId,
       messages,
       model,
       webSearch,
       currentTime,
     }: {
+      id: string;
       messages: AppUIMessage[];
-      model: string;
-      webSearch: boolean;
+      model?: string;
+      webSearch?: boolean;
       currentTime?: string;
     } = await req.json();
 
@@ -293,8 +472,47 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const modelId = model ?? DEFAULT_MODEL_ID;
+    if (!isModelId(modelId)) {
+      return new Response(
+        JSON.stringify({
+          error: "Unknown model",
+          message: `Model "${modelId}" is not available.`,
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const modelConfig = getModelConfig(modelId);
+    if (modelConfig.requiresAuth && !isAuthenticated) {
+      return new Response(
+        JSON.stringify({
+          error: "Authentication required",
+          message: `Please sign in with GitHub to use ${modelConfig.name}.`,
+        }),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
     const githubToken = await getGitHubToken();
 
+    // Save the incoming user message right away so a reload mid-generation
+    // finds the chat and can reconnect to its stream
+    if (isAuthenticated && chatId) {
+      await saveChat({
+        chatId,
+        messages,
+        savedMessages: messages.slice(0, -1),
+        token: convexToken,
+      });
+    }
+
     // Fetch user info if authenticated
     let userInfo:
       | {
@@ -331,25 +549,56 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    // Create GitHub API proxy tool with user's token
-    const githubApiProxyTool = createGitHubApiProxyTool(githubToken);
-
-    // isAuthenticated is already determined above for rate limiting
+    // Sandboxes and stored tool results are scoped to this user's chat
+    const ownerKey = getRequestOwnerKey({ userId, chatId, clientKey });
 
-    // Build tools object conditionally - only include web search tools if authenticated
+    // Create GitHub API proxy tool with user's token
+    const githubApiProxyTool = createGitHubApiProxyTool(githubToken, ownerKey);
+
+    // The sandbox is recorded in Convex so it survives requests landing on
+    // other instances
+    const runSandboxCommandTool = createRunSandboxCommandTool(
+      ownerKey,
+      chatId ? { chatId, clientKey, token: convexToken } : null
+    );
+
+    // Web search tools are only registered when the user asked for them and is signed in
+    const webSearchMode: WebSearchMode = !webSearch
+      ? "off"
+      : isAuthenticated
+        ? "enabled"
+        : "requires-auth";
+
+    // Old tool outputs are elided from what the model sees; the full history
+    // is still what gets persisted and sent back to the client
+    const history = compactHistory(messages, getHistoryBudget(modelConfig));
 
     const result = streamText({
-      model : openai.responses('gpt-5-mini'),
+      model: getLanguageModel(modelConfig),
       system: buildSystemPrompt(
         isAuthenticated,
+        webSearchMode,
         currentTime || new Date().toISOString(),
+        history.elidedCount,
         userInfo
       ),
-      messages: convertToModelMessages(messages),
+      messages: convertToModelMessages(history.messages),
       tools: {
         githubApi: githubApiProxyTool,
-        runSandboxCommand: sandboxTools.runCommand,
-        ...(isAuthenticated
+        githubSearch: createGitHubSearchTool(githubToken, ownerKey),
+        githubGraphql: createGitHubGraphqlTool(githubToken, ownerKey),
+        githubPrStatus: createGitHubPrStatusTool(githubToken, ownerKey),
+        githubActionsFailure: createGitHubActionsFailureTool(
+          githubToken,
+          ownerKey
+        ),
+        repoTree: createRepoTreeTool(githubToken, ownerKey),
+        fileHistory: createFileHistoryTool(githubToken, ownerKey),
+        compareRefs: createCompareRefsTool(githubToken, ownerKey),
+        releaseNotes: createReleaseNotesTool(githubToken, ownerKey),
+        runSandboxCommand: runSandboxCommandTool,
+        readToolResult: createReadToolResultTool(ownerKey),
+        ...(webSearchMode === "enabled"
           ? {
               webSearch: webSearchTool,
               fetchPages,
@@ -379,21 +628,116 @@ export async function POST(req: NextRequest) {
       providerOptions: {
         openai: {
           // https://platform.openai.com/docs/api-reference/responses/create#responses-create-reasoning
-          reasoningEffort: "low", // minimal (new to this model), low, medium, high
-          reasoningSummary: "auto", // auto, concise, detailed
+          reasoningEffort: modelConfig.reasoningEffort,
+          reasoningSummary: modelConfig.reasoningSummary,
         },
       },
+      onFinish: async ({ totalUsage }) => {
+        await recordUsage({
+          clientKey,
+          token: convexToken,
+          chatId,
+          modelId: modelConfig.id,
+          usage: totalUsage,
+        });
+      },
       stopWhen: stepCountIs(150),
       experimental_telemetry: { isEnabled: true }, // required
     }
     
   );
 
+    // Run the generation to the end even if the client disconnects, so
+    // onFinish still records its usage against the caller's quota
+    after(result.consumeStream());
+
+    // Input + output tokens of the latest step, reported as the context window fill
+    let contextTokens = 0;
+
+    // Whether the finished chat was saved; unsaved chats are reported to the
+    // client, since they would be gone after a reload
+    let chatSaved = true;
+
     // send sources and reasoning back to the client
-    return result.toUIMessageStreamResponse({
+    const uiStream = result.toUIMessageStream({
       sendSources: true,
 
       sendReasoning: true,
+      originalMessages: messages,
+      // Server-generated IDs keep persisted assistant messages stable across reloads
+      generateMessageId: createIdGenerator({ prefix: "msg", size: 16 }),
+      // Attach the model and token usage to the assistant message for the usage meter
+      messageMetadata: ({ part }): AppMessageMetadata | undefined => {
+        switch (part.type) {
+          case "start":
+            return {
+              modelId: modelConfig.id,
+              ...(webSearchMode === "requires-auth"
+                ? {
+                    notice:
+                      "Web search is only available when signed in, so this answer uses GitHub only. Sign in with GitHub to search the web.",
+                  }
+                : {}),
+            };
+          case "finish-step":
+            contextTokens =
+              (part.usage.inputTokens ?? 0) + (part.usage.outputTokens ?? 0);
+            return undefined;
+          case "finish":
+            return {
+              modelId: modelConfig.id,
+              usage: part.totalUsage,
+              contextTokens,
+            };
+        }
+      },
+      onFinish: async ({ messages: finishedMessages }) => {
+        if (isAuthenticated && chatId) {
+          chatSaved = await saveChat({
+            chatId,
+            messages: finishedMessages,
+            savedMessages: messages,
+            token: convexToken,
+          });
+        }
+      },
+    });
+
+    return createUIMessageStreamResponse({
+      headers: rateLimitHeaders,
+      stream: createUIMessageStream<AppUIMessage>({
+        execute: async ({ writer }) => {
+          // Read the stream here rather than merging it, so onFinish has
+          // saved the chat by the time the loop ends
+          for await (const chunk of uiStream) {
+            writer.write(chunk);
+          }
+          if (!chatSaved) {
+            writer.write({
+              type: "data-notice",
+              data: {
+                message:
+                  "This chat could not be saved, so it won't be in your history after a reload.",
+              },
+              transient: true,
+            });
+          }
+        },
+      }),
+      // Persist the stream for signed-in chats so clients can resume it after a reload
+      consumeSseStream:
+        isAuthenticated && chatId && convexToken
+          ? ({ stream }) => {
+              after(
+                persistStream({
+                  chatId,
+                  streamId: generateId(),
+                  stream,
+                  token: convexToken,
+                })
+              );
+            }
+          : undefined,
     });
   } catch (error: unknown) {
     const message =
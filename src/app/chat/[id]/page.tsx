@@ -0,0 +1,21 @@
+import { notFound } from "next/navigation";
+import { Chat } from "@/components/chat";
+import { getToken } from "@/lib/auth-server";
+import { loadChat } from "@/lib/chat-store";
+
+export default async function ChatPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const chat = await loadChat(id, await getToken());
+
+  if (!chat) {
+    notFound();
+  }
+
+  return (
+    <Chat key={chat.chatId} id={chat.chatId} initialMessages={chat.messages} />
+  );
+}
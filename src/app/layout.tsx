@@ -2,6 +2,8 @@ import type { Metadata } from "next";
 import "./globals.css";
 import { ThemeProvider } from "@/components/theme-provider";
 import { Navbar } from "@/components/navbar";
+import { ChatSidebar } from "@/components/chat-sidebar";
+import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
 import { ConvexClientProvider } from "./ConvexClientProvider";
 import { Analytics } from "@vercel/analytics/next";
 import Script from 'next/script';
@@ -33,8 +35,13 @@ export default function RootLayout({
         />
         <ConvexClientProvider>
           <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
-            <Navbar />
-            {children}
+            <SidebarProvider defaultOpen={false}>
+              <ChatSidebar />
+              <SidebarInset>
+                <Navbar />
+                {children}
+              </SidebarInset>
+            </SidebarProvider>
           </ThemeProvider>
         </ConvexClientProvider>
         <Analytics />
@@ -0,0 +1,18 @@
+import { notFound } from "next/navigation";
+import { SharedChat } from "@/components/shared-chat";
+import { loadShare } from "@/lib/chat-store";
+
+export default async function SharePage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const share = await loadShare(id);
+
+  if (!share) {
+    notFound();
+  }
+
+  return <SharedChat share={share} />;
+}
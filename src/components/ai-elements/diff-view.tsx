@@ -0,0 +1,166 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { cn } from "@/lib/utils";
+import type {
+  CompareFile,
+  CompareHunk,
+  CompareRefsResult,
+} from "@/tools/compare-refs";
+import { ChevronRightIcon } from "lucide-react";
+import type { ComponentProps } from "react";
+import { memo } from "react";
+
+// Files expanded by default when a diff is small
+const DEFAULT_OPEN_FILES = 3;
+
+// Narrow a tool output to a compareRefs result (it may be a truncated preview)
+export function isCompareRefsResult(
+  output: unknown
+): output is CompareRefsResult {
+  return (
+    typeof output === "object" &&
+    output !== null &&
+    "files" in output &&
+    Array.isArray((output as { files: unknown }).files) &&
+    "summary" in output
+  );
+}
+
+const DiffHunk = ({ hunk }: { hunk: CompareHunk }) => (
+  <div className="font-mono text-[11px] leading-5">
+    <div className="bg-blue-500/10 px-3 text-muted-foreground">
+      {hunk.header}
+    </div>
+    {hunk.lines.split("\n").map((line, index) => (
+      <div
+        className={cn(
+          "whitespace-pre px-3",
+          line.startsWith("+") &&
+            "bg-green-500/10 text-green-700 dark:text-green-400",
+          line.startsWith("-") &&
+            "bg-red-500/10 text-red-700 dark:text-red-400",
+          line.startsWith("\\") && "text-muted-foreground"
+        )}
+        key={index}
+      >
+        {line || " "}
+      </div>
+    ))}
+  </div>
+);
+
+const DiffFile = ({
+  file,
+  defaultOpen,
+}: {
+  file: CompareFile;
+  defaultOpen: boolean;
+}) => {
+  const hasHunks = (file.hunks?.length ?? 0) > 0;
+
+  return (
+    <Collapsible className="rounded-md border" defaultOpen={defaultOpen}>
+      <CollapsibleTrigger
+        className="group flex w-full items-center gap-2 p-2 text-left text-xs disabled:cursor-default"
+        disabled={!hasHunks}
+      >
+        <ChevronRightIcon
+          className={cn(
+            "size-3.5 shrink-0 text-muted-foreground transition-transform group-data-[state=open]:rotate-90",
+            !hasHunks && "invisible"
+          )}
+        />
+        <Badge className="rounded-full text-[10px]" variant="secondary">
+          {file.status}
+        </Badge>
+        <span className="min-w-0 flex-1 truncate font-mono">
+          {file.previousPath ? `${file.previousPath} → ` : ""}
+          {file.path}
+        </span>
+        {file.binary ? (
+          <span className="text-muted-foreground">binary</span>
+        ) : (
+          <span className="shrink-0 font-mono">
+            <span className="text-green-600">+{file.additions}</span>{" "}
+            <span className="text-red-600">−{file.deletions}</span>
+          </span>
+        )}
+      </CollapsibleTrigger>
+      {hasHunks && (
+        <CollapsibleContent className="overflow-x-auto border-t">
+          {file.hunks?.map((hunk, index) => (
+            <DiffHunk hunk={hunk} key={index} />
+          ))}
+          {file.omittedHunks ? (
+            <div className="px-3 py-1 text-muted-foreground text-xs">
+              {file.omittedHunks} more hunks not shown
+            </div>
+          ) : null}
+        </CollapsibleContent>
+      )}
+      {!hasHunks && file.omittedHunks ? (
+        <div className="border-t px-3 py-1 text-muted-foreground text-xs">
+          {file.omittedHunks} hunks not shown
+        </div>
+      ) : null}
+      {file.note && (
+        <div className="border-t px-3 py-1 text-muted-foreground text-xs">
+          {file.note}
+        </div>
+      )}
+    </Collapsible>
+  );
+};
+
+export type DiffViewProps = ComponentProps<"div"> & {
+  result: CompareRefsResult;
+};
+
+export const DiffView = memo(
+  ({ className, result, ...props }: DiffViewProps) => {
+    const { summary } = result;
+    const title =
+      result.pullNumber !== undefined
+        ? `#${result.pullNumber} ${result.base} ← ${result.head}`
+        : `${result.base}...${result.head}`;
+
+    return (
+      <div className={cn("space-y-2 p-4", className)} {...props}>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h4 className="font-medium text-muted-foreground text-xs uppercase tracking-wide">
+            Diff
+          </h4>
+          <div className="text-muted-foreground text-xs">
+            <span className="font-mono">{title}</span> · {summary.filesChanged}{" "}
+            files · <span className="text-green-600">+{summary.additions}</span>{" "}
+            <span className="text-red-600">−{summary.deletions}</span>
+            {summary.shownFiles < summary.filesChanged &&
+              ` · ${summary.shownFiles} shown`}
+          </div>
+        </div>
+        {result.note && (
+          <div className="rounded-md bg-muted/50 p-2 text-muted-foreground text-xs">
+            {result.note}
+          </div>
+        )}
+        <div className="space-y-2">
+          {result.files.map((file) => (
+            <DiffFile
+              defaultOpen={result.files.length <= DEFAULT_OPEN_FILES}
+              file={file}
+              key={`${file.previousPath ?? ""}:${file.path}`}
+            />
+          ))}
+        </div>
+      </div>
+    );
+  }
+);
+
+DiffView.displayName = "DiffView";
@@ -0,0 +1,86 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { useMutation, useQuery } from "convex/react";
+import { Trash2 } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+import { authClient } from "@/lib/auth-client";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from "@/components/ui/sidebar";
+
+export function ChatSidebar() {
+  const { data: session } = authClient.useSession();
+  const chats = useQuery(api.chats.listChats, session ? {} : "skip");
+  const deleteChat = useMutation(api.chats.deleteChat);
+  const pathname = usePathname();
+  const router = useRouter();
+
+  const handleDelete = async (chatId: string) => {
+    await deleteChat({ chatId });
+    if (pathname === `/chat/${chatId}`) {
+      router.push("/");
+    }
+  };
+
+  return (
+    <Sidebar>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>History</SidebarGroupLabel>
+          <SidebarGroupContent>
+            {!session ? (
+              <p className="px-2 text-xs text-muted-foreground">
+                Sign in with GitHub to save your chats.
+              </p>
+            ) : chats === undefined ? (
+              <SidebarMenu>
+                {Array.from({ length: 5 }).map((_, index) => (
+                  <SidebarMenuItem key={index}>
+                    <SidebarMenuSkeleton />
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            ) : chats.length === 0 ? (
+              <p className="px-2 text-xs text-muted-foreground">
+                No saved chats yet.
+              </p>
+            ) : (
+              <SidebarMenu>
+                {chats.map((chat) => (
+                  <SidebarMenuItem key={chat.chatId}>
+                    <SidebarMenuButton
+                      asChild
+                      isActive={pathname === `/chat/${chat.chatId}`}
+                    >
+                      <Link href={`/chat/${chat.chatId}`}>
+                        <span>{chat.title}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                    <SidebarMenuAction
+                      showOnHover
+                      onClick={() => handleDelete(chat.chatId)}
+                    >
+                      <Trash2 />
+                      <span className="sr-only">Delete chat</span>
+                    </SidebarMenuAction>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  );
+}
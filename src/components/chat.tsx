@@ -0,0 +1,611 @@
+"use client";
+
+import {
+  Conversation,
+  ConversationContent,
+  ConversationScrollButton,
+} from "@/components/ai-elements/conversation";
+import {
+  PromptInput,
+  PromptInputActionAddAttachments,
+  PromptInputActionMenu,
+  PromptInputActionMenuContent,
+  PromptInputActionMenuTrigger,
+  PromptInputAttachment,
+  PromptInputAttachments,
+  PromptInputBody,
+  PromptInputButton,
+  PromptInputHeader,
+  type PromptInputMessage,
+  PromptInputSelect,
+  PromptInputSelectContent,
+  PromptInputSelectItem,
+  PromptInputSelectTrigger,
+  PromptInputSelectValue,
+  PromptInputSubmit,
+  PromptInputTextarea,
+  PromptInputFooter,
+  PromptInputTools,
+} from "@/components/ai-elements/prompt-input";
+import { Suggestions, Suggestion } from "@/components/ai-elements/suggestion";
+import {
+  Context,
+  ContextCacheUsage,
+  ContextContent,
+  ContextContentBody,
+  ContextContentFooter,
+  ContextContentHeader,
+  ContextInputUsage,
+  ContextOutputUsage,
+  ContextReasoningUsage,
+  ContextTrigger,
+} from "@/components/ai-elements/context";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useRef, useState, useMemo, useCallback } from "react";
+import { useChat } from "@ai-sdk/react";
+import { useStickToBottom } from "use-stick-to-bottom";
+import { authClient } from "@/lib/auth-client";
+import { track } from "@vercel/analytics";
+import { AlertCircleIcon, GlobeIcon } from "lucide-react";
+import { MessageItem } from "@/components/message-item";
+import { ShareDialog } from "@/components/share-dialog";
+import { ExportMenu } from "@/components/export-menu";
+import type { AppUIMessage } from "@/types/chat";
+import {
+  DEFAULT_MODEL_ID,
+  getModelConfig,
+  isModelId,
+  models,
+  type ModelId,
+} from "@/lib/models";
+import type { LanguageModelUsage } from "ai";
+
+const features = [
+  {
+    title: "GitHub Search",
+    description: "Search repositories, code, issues & PRs",
+  },
+  {
+    title: "Personalized Responses",
+    description: "Sign in with GitHub for your PRs & issues",
+  },
+  { title: "Sandboxes", description: "Download repos & run code" },
+  {
+    title: "Public Data Only",
+    description: "Only can search public data",
+  },
+];
+
+const promptSuggestions = [
+  "List my open PRs with CI failures",
+  "How does dub.co implement OAuth?",
+  "Explain how `createOpencodeClient` in OpenCode works to send commands to a remote client",
+];
+
+// Sum the token usage reported on each assistant message of the chat
+function getChatUsage(messages: AppUIMessage[]): LanguageModelUsage | null {
+  const usages = messages.flatMap((message) =>
+    message.metadata?.usage ? [message.metadata.usage] : []
+  );
+  if (usages.length === 0) {
+    return null;
+  }
+  return usages.reduce<LanguageModelUsage>(
+    (total, usage) => ({
+      inputTokens: (total.inputTokens ?? 0) + (usage.inputTokens ?? 0),
+      outputTokens: (total.outputTokens ?? 0) + (usage.outputTokens ?? 0),
+      totalTokens: (total.totalTokens ?? 0) + (usage.totalTokens ?? 0),
+      reasoningTokens:
+        (total.reasoningTokens ?? 0) + (usage.reasoningTokens ?? 0),
+      cachedInputTokens:
+        (total.cachedInputTokens ?? 0) + (usage.cachedInputTokens ?? 0),
+    }),
+    {
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      reasoningTokens: 0,
+      cachedInputTokens: 0,
+    }
+  );
+}
+
+export function Chat({
+  id,
+  initialMessages,
+}: {
+  id: string;
+  initialMessages: AppUIMessage[];
+}) {
+  const [input, setInput] = useState("");
+  const [model, setModel] = useState<ModelId>(DEFAULT_MODEL_ID);
+  const [webSearch, setWebSearch] = useState(false);
+  const [rateLimitError, setRateLimitError] = useState<string | null>(null);
+  const [botError, setBotError] = useState<string | null>(null);
+  const [generalError, setGeneralError] = useState<string | null>(null);
+  const { data: session } = authClient.useSession();
+  const isAuthenticated = !!session;
+  const { messages, sendMessage, status, regenerate, stop } = useChat<AppUIMessage>({
+    id,
+    messages: initialMessages,
+    // Reconnect to a generation that was still running when the page was left
+    resume: initialMessages.length > 0,
+    onData: (part) => {
+      if (part.type === "data-notice") {
+        setGeneralError(part.data.message);
+      }
+    },
+    onError: async (error) => {
+      const errorMessage = error.message || "";
+
+      // Check if it's a 403 bot detection error
+      if (
+        errorMessage.includes("403") ||
+        errorMessage.toLowerCase().includes("bot")
+      ) {
+        // Try to extract the error message from the response
+        try {
+          // The error might have a cause with response data
+          if (error.cause && typeof error.cause === "object") {
+            // Check if there's a response object
+            if ("response" in error.cause) {
+              const response = error.cause.response as Response | undefined;
+              if (response && response.status === 403) {
+                try {
+                  const data = await response.json();
+                  if (data.message) {
+                    setBotError(data.message);
+                    return;
+                  }
+                } catch {
+                  // Response might not be JSON, fall through
+                }
+              }
+            }
+            // Check if message is directly in cause
+            if (
+              "message" in error.cause &&
+              typeof error.cause.message === "string"
+            ) {
+              if (error.cause.message.toLowerCase().includes("bot")) {
+                setBotError(error.cause.message);
+                return;
+              }
+            }
+          }
+        } catch {
+          // Fall through to default message
+        }
+        setBotError(error.message);
+        return;
+      }
+
+      // Check if it's a 429 rate limit error
+      if (
+        errorMessage.includes("429") ||
+        errorMessage.toLowerCase().includes("rate limit")
+      ) {
+        // The route explains the limit that was hit; fall back to a generic message
+        let limitMessage = "You have been rate limited. Please try again later.";
+        try {
+          if (error.cause && typeof error.cause === "object") {
+            if ("response" in error.cause) {
+              const response = error.cause.response as Response | undefined;
+              if (response && response.status === 429) {
+                try {
+                  const data = await response.json();
+                  if (data.message) {
+                    limitMessage = data.message;
+                  }
+                } catch {
+                  // Response might not be JSON, fall through
+                }
+              }
+            } else if (
+              "message" in error.cause &&
+              typeof error.cause.message === "string"
+            ) {
+              limitMessage = error.cause.message;
+            }
+          } else {
+            // useChat surfaces the response body as the error message
+            const data = JSON.parse(errorMessage);
+            if (typeof data.message === "string") {
+              limitMessage = data.message;
+            }
+          }
+        } catch {
+          // Fall through to default message
+        }
+        setRateLimitError(
+          `${limitMessage} Tweet at rhys if you have a legitimate use case and need higher limits.`
+        );
+        return;
+      }
+
+      // Handle all other errors
+      let errorText = errorMessage;
+      try {
+        // Try to extract error message from response
+        if (error.cause && typeof error.cause === "object") {
+          if ("response" in error.cause) {
+            const response = error.cause.response as Response | undefined;
+            if (response) {
+              try {
+                const data = await response.json();
+                if (data.message) {
+                  errorText = data.message;
+                } else if (data.error) {
+                  errorText = data.error;
+                }
+              } catch {
+                // Response might not be JSON, use status text
+                if (response.statusText) {
+                  errorText = response.statusText;
+                }
+              }
+            }
+          } else if (
+            "message" in error.cause &&
+            typeof error.cause.message === "string"
+          ) {
+            errorText = error.cause.message;
+          }
+        }
+      } catch {
+        // Fall through to using errorMessage
+      }
+
+      setGeneralError(errorText || "An error occurred. Please try again.");
+    },
+  });
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const stickToBottomInstance = useStickToBottom({
+    initial: "instant",
+    resize: "instant",
+  });
+
+  // Attach the scrollRef to our scroll container using ref callback
+  const setScrollRef = (element: HTMLDivElement | null) => {
+    scrollContainerRef.current = element;
+    if (element && stickToBottomInstance.scrollRef) {
+      stickToBottomInstance.scrollRef(element);
+    }
+  };
+
+  const handleSubmit = async (message: PromptInputMessage) => {
+    const hasText = Boolean(message.text);
+    const hasAttachments = Boolean(message.files?.length);
+
+    if (!(hasText || hasAttachments)) {
+      return;
+    }
+
+    // Track analytics
+    const isFirstMessage = messages.length === 0;
+    if (isFirstMessage) {
+      track("chat_started", {
+        authenticated: isAuthenticated,
+        model: model,
+      });
+    }
+    track("message_sent", {
+      authenticated: isAuthenticated,
+      model: model,
+      hasAttachments: hasAttachments,
+      messageLength: message.text?.length || 0,
+    });
+
+    // Clear any previous errors
+    setRateLimitError(null);
+    setBotError(null);
+    setGeneralError(null);
+
+    // Clear input immediately for better UX
+    setInput("");
+
+    // Signed-in chats are saved, so give the URL a stable address for reloads and history
+    if (isFirstMessage && isAuthenticated) {
+      window.history.replaceState({}, "", `/chat/${id}`);
+    }
+
+    // Wrap sendMessage to catch 429 errors
+    try {
+      await sendMessage(
+        {
+          text: message.text || "Sent with attachments",
+          files: message.files,
+        },
+        {
+          body: {
+            model: model,
+            webSearch: webSearch,
+            currentTime: new Date().toISOString(),
+          },
+        }
+      );
+    } catch (error) {
+      // Fallback error handling - onError should handle it, but this is a safety net
+      if (error instanceof Error) {
+        if (error.message.includes("429")) {
+          // Error already handled by onError, but ensure we have a message
+          if (!rateLimitError) {
+            setRateLimitError(
+              "You have been rate limited. Please try again later. Tweet at rhys if you have a legitimate use case and need higher limits."
+            );
+          }
+        } else if (
+          error.message.includes("403") ||
+          error.message.toLowerCase().includes("bot")
+        ) {
+          // Error already handled by onError, but ensure we have a message
+          if (!botError) {
+            setBotError(error.message);
+          }
+        } else {
+          // Handle any other errors
+          if (!generalError) {
+            setGeneralError(
+              error.message || "An error occurred. Please try again."
+            );
+          }
+        }
+      }
+    }
+  };
+
+  const handleSuggestionClick = useCallback(
+    (suggestion: string) => {
+      handleSubmit({ text: suggestion });
+    },
+    [handleSubmit]
+  );
+
+  const handleRegenerate = useCallback(() => {
+    regenerate({
+      body: {
+        model: model,
+        webSearch: webSearch,
+        currentTime: new Date().toISOString(),
+      },
+    });
+  }, [regenerate, model, webSearch]);
+
+  // Memoize the last message ID to avoid recalculating
+  const lastMessageId = useMemo(() => messages.at(-1)?.id, [messages]);
+
+  const chatUsage = useMemo(() => getChatUsage(messages), [messages]);
+  const lastMetadata = useMemo(
+    () => messages.findLast((message) => message.metadata?.usage)?.metadata,
+    [messages]
+  );
+
+  // Helper function to render error message with Twitter link
+  const renderRateLimitError = (error: string) => {
+    const parts = error.split("rhys");
+    if (parts.length === 2) {
+      return (
+        <>
+          {parts[0]}
+          <a
+            href="https://twitter.com/rhyssullivan"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:text-blue-800 underline"
+          >
+            rhys
+          </a>
+          {parts[1]}
+        </>
+      );
+    }
+    return error;
+  };
+
+  return (
+    <div className="relative flex h-[calc(100vh-3.5rem)] w-full flex-col overflow-hidden">
+      <div
+        ref={setScrollRef}
+        className="relative flex flex-1 w-full flex-col overflow-y-auto overflow-x-hidden min-h-0"
+      >
+        {messages.length === 0 ? (
+          <>
+            <div className="max-w-4xl mx-auto w-full flex flex-col flex-1 px-4 sm:px-6 pt-12 pb-4">
+              <div className="text-center mb-12">
+                <h1 className="text-2xl sm:text-4xl font-semibold mb-2">
+                  Welcome to Better Pilot
+                </h1>
+                <p className="text-sm sm:text-base text-muted-foreground">
+                  Your AI-powered GitHub search assistant
+                </p>
+              </div>
+
+              <div className="hidden sm:grid grid-cols-2 gap-2 sm:gap-3 mb-8 sm:mb-12 max-w-md mx-auto">
+                {features.map((feature, index) => (
+                  <Card
+                    key={index}
+                    className="flex flex-col gap-0 py-2 px-3 sm:py-3 sm:px-4 border-border/50"
+                  >
+                    <CardHeader className="p-0 pb-1 sm:pb-1.5">
+                      <CardTitle className="text-xs sm:text-sm font-medium leading-tight">
+                        {feature.title}
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="p-0 flex items-start">
+                      <CardDescription className="text-[10px] sm:text-xs leading-relaxed">
+                        {feature.description}
+                      </CardDescription>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="max-w-4xl mx-auto w-full flex flex-col flex-1 px-4 sm:px-6 pt-6 pb-4">
+              <div className="mb-2 flex justify-end gap-1 sm:gap-2">
+                <ExportMenu messages={messages} />
+                {isAuthenticated && <ShareDialog chatId={id} />}
+              </div>
+              <Conversation instance={stickToBottomInstance}>
+                <ConversationContent>
+                  {messages.map((message) => (
+                    <MessageItem
+                      key={message.id}
+                      message={message}
+                      isLastMessage={message.id === lastMessageId}
+                      isStreaming={status === "streaming"}
+                      onRegenerate={handleRegenerate}
+                    />
+                  ))}
+                </ConversationContent>
+                <ConversationScrollButton />
+              </Conversation>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="sticky bottom-0 z-10 bg-background border-t">
+        <div className="grid shrink-0 gap-2 sm:gap-4 pt-2 sm:pt-4 pb-2">
+          <div className="w-full px-2 sm:px-4 pb-2 sm:pb-4 max-w-4xl mx-auto">
+            {rateLimitError && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertCircleIcon />
+                <AlertTitle>Rate Limited</AlertTitle>
+                <AlertDescription className="inline-block!">
+                  {renderRateLimitError(rateLimitError)}
+                </AlertDescription>
+              </Alert>
+            )}
+            {botError && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertCircleIcon />
+                <AlertTitle>Bot Detected</AlertTitle>
+                <AlertDescription>{botError}</AlertDescription>
+              </Alert>
+            )}
+            {generalError && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertCircleIcon />
+                <AlertTitle>Error</AlertTitle>
+                <AlertDescription>{generalError}</AlertDescription>
+              </Alert>
+            )}
+            {messages.length === 0 && (
+              <div className="mb-4 min-w-0">
+                <Suggestions>
+                  {promptSuggestions.map((suggestion, index) => (
+                    <Suggestion
+                      key={index}
+                      suggestion={suggestion}
+                      onClick={handleSuggestionClick}
+                    />
+                  ))}
+                </Suggestions>
+              </div>
+            )}
+            <PromptInput onSubmit={handleSubmit} globalDrop multiple>
+              <PromptInputHeader>
+                <PromptInputAttachments>
+                  {(attachment) => <PromptInputAttachment data={attachment} />}
+                </PromptInputAttachments>
+              </PromptInputHeader>
+              <PromptInputBody>
+                <PromptInputTextarea
+                  onChange={(e) => setInput(e.target.value)}
+                  value={input}
+                />
+              </PromptInputBody>
+              <PromptInputFooter>
+                <PromptInputTools>
+                  <PromptInputActionMenu>
+                    <PromptInputActionMenuTrigger />
+                    <PromptInputActionMenuContent>
+                      <PromptInputActionAddAttachments />
+                    </PromptInputActionMenuContent>
+                  </PromptInputActionMenu>
+
+                  <PromptInputButton
+                    onClick={() => setWebSearch(!webSearch)}
+                    variant={webSearch ? "default" : "ghost"}
+                    aria-pressed={webSearch}
+                    title={
+                      isAuthenticated
+                        ? "Search the web with Exa"
+                        : "Web search requires signing in with GitHub"
+                    }
+                  >
+                    <GlobeIcon size={16} />
+                    <span>Search</span>
+                  </PromptInputButton>
+
+                  <PromptInputSelect
+                    onValueChange={(value) => {
+                      if (isModelId(value)) {
+                        setModel(value);
+                      }
+                    }}
+                    value={model}
+                  >
+                    <PromptInputSelectTrigger>
+                      <PromptInputSelectValue />
+                    </PromptInputSelectTrigger>
+                    <PromptInputSelectContent>
+                      {models.map((model) => (
+                        <PromptInputSelectItem
+                          key={model.id}
+                          value={model.id}
+                          disabled={model.requiresAuth && !isAuthenticated}
+                        >
+                          {model.name}
+                          {model.requiresAuth &&
+                            !isAuthenticated &&
+                            " (sign in)"}
+                        </PromptInputSelectItem>
+                      ))}
+                    </PromptInputSelectContent>
+                  </PromptInputSelect>
+
+                  {chatUsage && (
+                    <Context
+                      usedTokens={lastMetadata?.contextTokens ?? 0}
+                      maxTokens={getModelConfig(model).contextWindow}
+                      usage={chatUsage}
+                      modelId={lastMetadata?.modelId}
+                    >
+                      <ContextTrigger />
+                      <ContextContent>
+                        <ContextContentHeader />
+                        <ContextContentBody>
+                          <ContextInputUsage />
+                          <ContextOutputUsage />
+                          <ContextReasoningUsage />
+                          <ContextCacheUsage />
+                        </ContextContentBody>
+                        <ContextContentFooter />
+                      </ContextContent>
+                    </Context>
+                  )}
+                </PromptInputTools>
+                <PromptInputSubmit
+                  disabled={!input && !status}
+                  status={status}
+                  onStop={stop}
+                />
+              </PromptInputFooter>
+            </PromptInput>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { DownloadIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { exportChat } from "@/lib/export-chat";
+import type { AppUIMessage } from "@/types/chat";
+
+export function ExportMenu({ messages }: { messages: AppUIMessage[] }) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="px-2 sm:px-3">
+          <DownloadIcon className="h-4 w-4" />
+          <span className="hidden sm:inline">Export</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => exportChat(messages, "markdown")}>
+          Markdown
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportChat(messages, "json")}>
+          JSON
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportChat(messages, "html")}>
+          Print / PDF
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
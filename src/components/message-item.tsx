@@ -0,0 +1,205 @@
+"use client";
+
+import { memo, useCallback, useMemo } from "react";
+import { CopyIcon, InfoIcon, RefreshCcwIcon } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Message,
+  MessageAction,
+  MessageActions,
+  MessageContent,
+  MessageResponse,
+} from "@/components/ai-elements/message";
+import {
+  Source,
+  Sources,
+  SourcesContent,
+  SourcesTrigger,
+} from "@/components/ai-elements/sources";
+import {
+  Reasoning,
+  ReasoningContent,
+  ReasoningTrigger,
+} from "@/components/ai-elements/reasoning";
+import {
+  Tool,
+  ToolContent,
+  ToolHeader,
+  ToolInput,
+  ToolOutput,
+} from "@/components/ai-elements/tool";
+import {
+  DiffView,
+  isCompareRefsResult,
+} from "@/components/ai-elements/diff-view";
+import type { AppToolUIPart, AppUIMessage } from "@/types/chat";
+
+// Memoized message item component to prevent unnecessary re-renders
+export const MessageItem = memo(
+  ({
+    message,
+    isLastMessage,
+    isStreaming,
+    onRegenerate,
+  }: {
+    message: AppUIMessage;
+    isLastMessage: boolean;
+    isStreaming: boolean;
+    // Omitted for read-only views such as shared links
+    onRegenerate?: () => void;
+  }) => {
+    // Pre-compute filtered parts once per message
+    const sourceParts = useMemo(
+      () => message.parts.filter((part) => part.type === "source-url"),
+      [message.parts]
+    );
+
+    const handleCopyText = useCallback((text: string) => {
+      navigator.clipboard.writeText(text);
+    }, []);
+
+    return (
+      <div className="[content-visibility:auto]">
+        {message.role === "assistant" && message.metadata?.notice && (
+          <Alert className="mb-4">
+            <InfoIcon />
+            <AlertDescription>{message.metadata.notice}</AlertDescription>
+          </Alert>
+        )}
+        {message.role === "assistant" && sourceParts.length > 0 && (
+          <Sources>
+            <SourcesTrigger count={sourceParts.length} />
+            {sourceParts.map((part, i) => (
+              <SourcesContent key={`${message.id}-${i}`}>
+                <Source
+                  key={`${message.id}-${i}`}
+                  href={part.url}
+                  title={part.url}
+                />
+              </SourcesContent>
+            ))}
+          </Sources>
+        )}
+        {message.parts.map((part, i) => {
+          switch (part.type) {
+            case "text":
+              return (
+                <div
+                  key={`${message.id}-${i}`}
+                  className="group/message flex w-full flex-col"
+                >
+                  <Message from={message.role}>
+                    <MessageContent>
+                      <MessageResponse>{part.text}</MessageResponse>
+                    </MessageContent>
+                  </Message>
+                  {message.role === "assistant" && (
+                    <MessageActions className="mt-2 opacity-0 transition-opacity group-hover/message:opacity-100">
+                      {isLastMessage && onRegenerate && (
+                        <MessageAction onClick={onRegenerate} label="Retry">
+                          <RefreshCcwIcon className="size-3" />
+                        </MessageAction>
+                      )}
+                      <MessageAction
+                        onClick={() => handleCopyText(part.text)}
+                        label="Copy"
+                      >
+                        <CopyIcon className="size-3" />
+                      </MessageAction>
+                    </MessageActions>
+                  )}
+                  {message.role === "user" && (
+                    <MessageActions className="mt-2 ml-auto justify-end opacity-0 transition-opacity group-hover/message:opacity-100">
+                      <MessageAction
+                        onClick={() => handleCopyText(part.text)}
+                        label="Copy"
+                      >
+                        <CopyIcon className="size-3" />
+                      </MessageAction>
+                    </MessageActions>
+                  )}
+                </div>
+              );
+            case "reasoning":
+              return (
+                <Reasoning
+                  key={`${message.id}-${i}`}
+                  className="w-full"
+                  isStreaming={
+                    isStreaming &&
+                    i === message.parts.length - 1 &&
+                    isLastMessage
+                  }
+                >
+                  <ReasoningTrigger />
+                  <ReasoningContent>{part.text}</ReasoningContent>
+                </Reasoning>
+              );
+            default:
+              // Handle tool parts
+              if (part.type.startsWith("tool-")) {
+                const toolPart = part as AppToolUIPart;
+                // Extract reason from input if present
+                const inputObj =
+                  typeof toolPart.input === "object" && toolPart.input !== null
+                    ? (toolPart.input as Record<string, unknown>)
+                    : {};
+                const reason =
+                  typeof inputObj.reason === "string"
+                    ? inputObj.reason
+                    : undefined;
+
+                return (
+                  <Tool
+                    key={`${message.id}-${i}`}
+                    defaultOpen={false}
+                    className="w-full"
+                  >
+                    <ToolHeader
+                      type={toolPart.type}
+                      state={toolPart.state}
+                      reason={reason}
+                    />
+                    <ToolContent>
+                      {toolPart.input !== undefined && (
+                        <ToolInput input={toolPart.input} />
+                      )}
+                      {toolPart.type === "tool-compareRefs" &&
+                      isCompareRefsResult(toolPart.output) ? (
+                        <DiffView result={toolPart.output} />
+                      ) : (
+                        (toolPart.output !== undefined ||
+                          toolPart.errorText) && (
+                          <ToolOutput
+                            output={toolPart.output}
+                            errorText={toolPart.errorText}
+                          />
+                        )
+                      )}
+                    </ToolContent>
+                  </Tool>
+                );
+              }
+              return null;
+          }
+        })}
+      </div>
+    );
+  },
+  (prevProps, nextProps) => {
+    // Custom comparison function for better memoization
+    // Only re-render if message ID changed, parts length changed, or streaming status changed
+    if (prevProps.message.id !== nextProps.message.id) return false;
+    if (prevProps.message.parts.length !== nextProps.message.parts.length)
+      return false;
+    if (prevProps.isLastMessage !== nextProps.isLastMessage) return false;
+    if (prevProps.isStreaming !== nextProps.isStreaming) return false;
+
+    // For streaming messages, always re-render to show updates
+    if (nextProps.isStreaming && nextProps.isLastMessage) return false;
+
+    return true;
+  }
+);
+
+MessageItem.displayName = "MessageItem";
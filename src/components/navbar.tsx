@@ -15,19 +15,23 @@ import { LogOut, User, Github, MessageSquare, MessageSquarePlus } from "lucide-r
 import Image from "next/image";
 import Link from "next/link";
 import { GitHubLoginButton } from "@/components/github-login-button";
+import { SidebarTrigger } from "@/components/ui/sidebar";
 
 export function Navbar() {
   const { data: session, isPending } = authClient.useSession();
   const router = useRouter();
 
   const handleNewChat = () => {
-    window.location.reload();
+    // Refresh so the home page renders a fresh chat even if we're already on it
+    router.push("/");
+    router.refresh();
   };
 
   if (isPending) {
     return (
       <nav className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
         <div className="flex h-14 items-center justify-end px-2 sm:px-4 gap-1 sm:gap-2">
+          <SidebarTrigger className="mr-auto" />
           <Button variant="outline" size="sm" onClick={handleNewChat} className="px-2 sm:px-3">
             <MessageSquarePlus className="h-4 w-4" />
             <span className="hidden sm:inline">New Chat</span>
@@ -64,6 +68,7 @@ export function Navbar() {
     return (
       <nav className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
         <div className="flex h-14 items-center justify-end px-2 sm:px-4 gap-1 sm:gap-2">
+          <SidebarTrigger className="mr-auto" />
           <Button variant="outline" size="sm" onClick={handleNewChat} className="px-2 sm:px-3">
             <MessageSquarePlus className="h-4 w-4" />
             <span className="hidden sm:inline">New Chat</span>
@@ -113,6 +118,7 @@ export function Navbar() {
   return (
     <nav className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="flex h-14 items-center justify-end px-2 sm:px-4 gap-1 sm:gap-2">
+        <SidebarTrigger className="mr-auto" />
         <Button variant="outline" size="sm" onClick={handleNewChat} className="px-2 sm:px-3">
           <MessageSquarePlus className="h-4 w-4" />
           <span className="hidden sm:inline">New Chat</span>
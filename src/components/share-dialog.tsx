@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { CopyIcon, Share2Icon, Trash2 } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+function getShareUrl(shareId: string) {
+  return `${window.location.origin}/share/${shareId}`;
+}
+
+export function ShareDialog({ chatId }: { chatId: string }) {
+  const [open, setOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingShareId, setRevokingShareId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const shares = useQuery(
+    api.shares.listSharesForChat,
+    open ? { chatId } : "skip"
+  );
+  const createShare = useMutation(api.shares.createShare);
+  const revokeShare = useMutation(api.shares.revokeShare);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const shareId = await createShare({ chatId });
+      await navigator.clipboard.writeText(getShareUrl(shareId));
+    } catch (error) {
+      console.error("Failed to create share link:", error);
+      setError("Could not create a share link. Please try again.");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (shareId: string) => {
+    setRevokingShareId(shareId);
+    try {
+      await revokeShare({ shareId });
+      // The link drops out of the shares query once the revoke succeeds
+      setError(null);
+    } catch (error) {
+      console.error("Failed to revoke share link:", error);
+      setError("Could not revoke the share link. Please try again.");
+    } finally {
+      setRevokingShareId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="px-2 sm:px-3">
+          <Share2Icon className="h-4 w-4" />
+          <span className="hidden sm:inline">Share</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share this chat</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view a read-only snapshot of the
+            conversation as it is now. Messages sent later are not included.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-2">
+          {shares?.map((share) => (
+            <div
+              key={share.shareId}
+              className="flex items-center gap-2 rounded-md border px-3 py-2"
+            >
+              <span className="min-w-0 flex-1 truncate font-mono text-xs">
+                {getShareUrl(share.shareId)}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() =>
+                  navigator.clipboard.writeText(getShareUrl(share.shareId))
+                }
+              >
+                <CopyIcon className="size-3" />
+                <span className="sr-only">Copy link</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                disabled={revokingShareId === share.shareId}
+                onClick={() => handleRevoke(share.shareId)}
+              >
+                <Trash2 className="size-3" />
+                <span className="sr-only">Revoke link</span>
+              </Button>
+            </div>
+          ))}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button onClick={handleCreate} disabled={isCreating}>
+            {isCreating ? "Creating link..." : "Create and copy link"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useMutation } from "convex/react";
+import { generateId } from "ai";
+import { api } from "../../convex/_generated/api";
+import { authClient } from "@/lib/auth-client";
+import { Button } from "@/components/ui/button";
+import { GitHubLoginButton } from "@/components/github-login-button";
+import {
+  Conversation,
+  ConversationContent,
+  ConversationScrollButton,
+} from "@/components/ai-elements/conversation";
+import { MessageItem } from "@/components/message-item";
+import { ExportMenu } from "@/components/export-menu";
+import type { SharedChat as SharedChatData } from "@/lib/chat-store";
+
+// Read-only view of a shared chat snapshot
+export function SharedChat({ share }: { share: SharedChatData }) {
+  const { data: session } = authClient.useSession();
+  const forkShare = useMutation(api.shares.forkShare);
+  const router = useRouter();
+  const [isForking, setIsForking] = useState(false);
+
+  const handleContinue = async () => {
+    setIsForking(true);
+    try {
+      const chatId = await forkShare({
+        shareId: share.shareId,
+        chatId: generateId(),
+      });
+      router.push(`/chat/${chatId}`);
+    } catch (error) {
+      console.error("Failed to fork shared chat:", error);
+      setIsForking(false);
+    }
+  };
+
+  return (
+    <div className="relative flex h-[calc(100vh-3.5rem)] w-full flex-col overflow-hidden">
+      <div className="relative flex flex-1 w-full flex-col overflow-y-auto overflow-x-hidden min-h-0">
+        <div className="max-w-4xl mx-auto w-full flex flex-col flex-1 px-4 sm:px-6 pt-6 pb-4">
+          <div className="mb-4 flex items-start justify-between gap-2">
+            <div>
+              <h1 className="text-lg sm:text-xl font-semibold">
+                {share.title}
+              </h1>
+              <p className="text-xs text-muted-foreground">
+                Shared on {new Date(share.createdAt).toLocaleDateString()}
+              </p>
+            </div>
+            <ExportMenu messages={share.messages} />
+          </div>
+          <Conversation>
+            <ConversationContent>
+              {share.messages.map((message) => (
+                <MessageItem
+                  key={message.id}
+                  message={message}
+                  isLastMessage={false}
+                  isStreaming={false}
+                />
+              ))}
+            </ConversationContent>
+            <ConversationScrollButton />
+          </Conversation>
+        </div>
+      </div>
+
+      <div className="sticky bottom-0 z-10 bg-background border-t">
+        <div className="flex items-center justify-center gap-3 px-4 py-4">
+          {session ? (
+            <Button onClick={handleContinue} disabled={isForking}>
+              {isForking ? "Copying chat..." : "Continue this chat"}
+            </Button>
+          ) : (
+            <>
+              <span className="text-sm text-muted-foreground">
+                Sign in to continue this chat
+              </span>
+              <GitHubLoginButton />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
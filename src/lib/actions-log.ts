@@ -0,0 +1,112 @@
+// lib/actions-log.ts
+// Pulls the useful parts out of a GitHub Actions job log: the error
+// annotations, test failure blocks and the lines leading up to the failure.
+// Job logs are plain text with an ISO timestamp before every line and
+// workflow commands such as ##[group], ##[endgroup] and ##[error].
+
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z ?/;
+// ANSI colour codes that test runners leave in the output
+const ANSI_ESCAPE = /\u001b\[[0-9;]*m/g;
+
+const MAX_ERROR_LINES = 20;
+const MAX_TEST_FAILURES = 10;
+const TEST_FAILURE_MAX_LINES = 20;
+const LINE_MAX_CHARS = 500;
+
+// Lines that start a failure report in common test runners: Jest/Vitest,
+// Mocha, pytest, Go, TAP, RSpec and cargo test
+const TEST_FAILURE_START = [
+  /^\s*(FAIL|FAILED)\s+\S/,
+  /^\s*[●✕×]\s+\S/,
+  /^\s*\d+\) \S/,
+  /^_{3,} .+ _{3,}$/,
+  /^\s*--- FAIL: /,
+  /^not ok \d+/,
+  /^\s*Failures:$/,
+  /^---- \S+ stdout ----$/,
+];
+
+export type ActionsLogSummary = {
+  totalLines: number;
+  errors: string[];
+  testFailures: string[];
+  // Last lines before the first ##[error], or the end of the log
+  excerpt: string;
+  excerptStartLine: number;
+};
+
+function clipLine(line: string): string {
+  return line.length > LINE_MAX_CHARS
+    ? `${line.slice(0, LINE_MAX_CHARS)}…`
+    : line;
+}
+
+// Strip timestamps and colour codes from every line
+export function cleanLogLines(log: string): string[] {
+  return log
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(TIMESTAMP, "").replace(ANSI_ESCAPE, ""));
+}
+
+// A block starts at a failure header and runs until a blank line, a workflow
+// command or the next header
+function collectTestFailures(lines: string[]): string[] {
+  const blocks: string[] = [];
+  for (let i = 0; i < lines.length && blocks.length < MAX_TEST_FAILURES; i++) {
+    const line = lines[i] ?? "";
+    if (!TEST_FAILURE_START.some((pattern) => pattern.test(line))) continue;
+
+    const block = [clipLine(line)];
+    let j = i + 1;
+    while (j < lines.length && block.length < TEST_FAILURE_MAX_LINES) {
+      const next = lines[j] ?? "";
+      if (
+        next.trim() === "" ||
+        next.startsWith("##[") ||
+        TEST_FAILURE_START.some((pattern) => pattern.test(next))
+      ) {
+        break;
+      }
+      block.push(clipLine(next));
+      j++;
+    }
+    blocks.push(block.join("\n"));
+    i = j - 1;
+  }
+  return blocks;
+}
+
+export function summarizeActionsLog(
+  log: string,
+  tailLines: number
+): ActionsLogSummary {
+  const lines = cleanLogLines(log);
+
+  const errors: string[] = [];
+  let firstErrorLine = -1;
+  for (const [index, line] of lines.entries()) {
+    if (!line.startsWith("##[error]")) continue;
+    if (firstErrorLine === -1) firstErrorLine = index;
+    const message = clipLine(line.slice("##[error]".length));
+    if (!errors.includes(message) && errors.length < MAX_ERROR_LINES) {
+      errors.push(message);
+    }
+  }
+
+  const end = firstErrorLine === -1 ? lines.length : firstErrorLine;
+  const start = Math.max(0, end - tailLines);
+  const excerpt = lines
+    .slice(start, end)
+    .filter((line) => line !== "##[endgroup]")
+    .map(clipLine)
+    .join("\n");
+
+  return {
+    totalLines: lines.length,
+    errors,
+    testFailures: collectTestFailures(lines),
+    excerpt,
+    excerptStartLine: start + 1,
+  };
+}
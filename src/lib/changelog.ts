@@ -0,0 +1,107 @@
+// lib/changelog.ts
+// Splits CHANGELOG-style markdown into per-version sections and picks out
+// breaking changes and deprecations from release notes.
+import { parseVersion, type Version } from "@/lib/semver";
+
+const HEADING = /^(#{1,4})\s+(.*)$/;
+// "1.2.3", "v1.2.3", "[1.2.3]", "pkg@1.2.3" anywhere in a heading
+const HEADING_VERSION =
+  /(?:^|[\s[(])((?:@?[\w.-]+(?:\/[\w.-]+)?@)?v?\d+\.\d+(?:\.\d+)?(?:-[0-9A-Za-z.-]+)?)(?=$|[\s\])])/;
+
+// Subheadings whose items are breaking changes (Keep a Changelog, changesets)
+const BREAKING_SECTION = /breaking|major changes|removed/i;
+const BREAKING_LINE = /\bBREAKING\b|breaking change|⚠️/i;
+const DEPRECATION_LINE = /deprecat/i;
+
+const MAX_NOTICES = 20;
+const NOTICE_MAX_CHARS = 300;
+
+export type ChangelogSection = {
+  version: Version;
+  heading: string;
+  body: string;
+};
+
+export function parseChangelog(markdown: string): ChangelogSection[] {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  const sections: ChangelogSection[] = [];
+  let current: (ChangelogSection & { level: number; lines: string[] }) | null =
+    null;
+  // Level of version headings, taken from the first one found
+  let versionLevel: number | null = null;
+
+  const close = () => {
+    if (current) {
+      sections.push({
+        version: current.version,
+        heading: current.heading,
+        body: current.lines.join("\n").trim(),
+      });
+    }
+    current = null;
+  };
+
+  for (const line of lines) {
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = heading[1]?.length ?? 0;
+      const text = heading[2] ?? "";
+      const token = HEADING_VERSION.exec(text)?.[1];
+      const version = token ? parseVersion(token) : null;
+      if (version && (versionLevel === null || level === versionLevel)) {
+        versionLevel = level;
+        close();
+        current = { version, heading: text, body: "", level, lines: [] };
+        continue;
+      }
+      // A heading above the version level ends the current section
+      if (versionLevel !== null && level < versionLevel) {
+        close();
+        continue;
+      }
+    }
+    current?.lines.push(line);
+  }
+  close();
+  return sections;
+}
+
+function clipNotice(line: string): string {
+  const text = line.replace(/^\s*[-*+]\s+/, "").trim();
+  return text.length > NOTICE_MAX_CHARS
+    ? `${text.slice(0, NOTICE_MAX_CHARS)}…`
+    : text;
+}
+
+// Lines of release notes that announce breaking changes or deprecations
+export function findNotices(text: string): {
+  breaking: string[];
+  deprecations: string[];
+} {
+  const breaking: string[] = [];
+  const deprecations: string[] = [];
+  let inBreakingSection = false;
+
+  for (const line of text.split("\n")) {
+    const heading = HEADING.exec(line);
+    if (heading) {
+      inBreakingSection = BREAKING_SECTION.test(heading[2] ?? "");
+      if (BREAKING_LINE.test(heading[2] ?? "")) continue;
+    }
+    if (!line.trim() || heading) continue;
+
+    const isItem = /^\s*[-*+]\s+/.test(line);
+    if (
+      (BREAKING_LINE.test(line) || (inBreakingSection && isItem)) &&
+      breaking.length < MAX_NOTICES
+    ) {
+      breaking.push(clipNotice(line));
+    } else if (
+      DEPRECATION_LINE.test(line) &&
+      deprecations.length < MAX_NOTICES
+    ) {
+      deprecations.push(clipNotice(line));
+    }
+  }
+  return { breaking, deprecations };
+}
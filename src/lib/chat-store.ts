@@ -0,0 +1,227 @@
+// lib/chat-store.ts
+import { fetchMutation, fetchQuery } from "convex/nextjs";
+import { api } from "../../convex/_generated/api";
+import {
+  elideToolOutput,
+  isElidedToolOutput,
+  isToolPart,
+} from "@/lib/compact-history";
+import type { AppUIMessage } from "@/types/chat";
+
+// Convex documents are limited to 1 MiB; leave room for the other fields
+const MESSAGE_MAX_BYTES = 900_000;
+// Convex mutation arguments are limited to 8 MiB
+const SAVE_BATCH_MAX_BYTES = 4_000_000;
+
+export type StoredChat = {
+  chatId: string;
+  title: string;
+  messages: AppUIMessage[];
+};
+
+export type SharedChat = {
+  shareId: string;
+  title: string;
+  createdAt: number;
+  messages: AppUIMessage[];
+};
+
+function parseMessages(
+  messages: Array<{
+    id: string;
+    role: AppUIMessage["role"];
+    parts: string;
+    metadata?: string;
+  }>
+): AppUIMessage[] {
+  return messages.map((message) => ({
+    id: message.id,
+    role: message.role,
+    parts: JSON.parse(message.parts) as AppUIMessage["parts"],
+    ...(message.metadata
+      ? {
+          metadata: JSON.parse(message.metadata) as AppUIMessage["metadata"],
+        }
+      : {}),
+  }));
+}
+
+// Load a chat owned by the signed-in user, or null if it doesn't exist
+export async function loadChat(
+  chatId: string,
+  token: string | undefined
+): Promise<StoredChat | null> {
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const chat = await fetchQuery(api.chats.getChat, { chatId }, { token });
+    if (!chat) {
+      return null;
+    }
+    return {
+      chatId: chat.chatId,
+      title: chat.title,
+      messages: parseMessages(chat.messages),
+    };
+  } catch (error) {
+    console.error("Failed to load chat:", error);
+    return null;
+  }
+}
+
+// Load a public share snapshot; no authentication required
+export async function loadShare(shareId: string): Promise<SharedChat | null> {
+  try {
+    const share = await fetchQuery(api.shares.getShare, { shareId });
+    if (!share) {
+      return null;
+    }
+    return {
+      shareId: share.shareId,
+      title: share.title,
+      createdAt: share.createdAt,
+      messages: parseMessages(share.messages),
+    };
+  } catch (error) {
+    console.error("Failed to load share:", error);
+    return null;
+  }
+}
+
+type SerializedMessage = {
+  id: string;
+  role: AppUIMessage["role"];
+  parts: string;
+  metadata?: string;
+};
+
+function serializeMessage(message: AppUIMessage): SerializedMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    parts: JSON.stringify(message.parts),
+    metadata: message.metadata ? JSON.stringify(message.metadata) : undefined,
+  };
+}
+
+function byteLength(message: SerializedMessage): number {
+  return (
+    Buffer.byteLength(message.parts) + Buffer.byteLength(message.metadata ?? "")
+  );
+}
+
+// Serialize a message to fit one Convex document, eliding its largest tool
+// outputs if needed. The tool inputs are kept so the call can be repeated.
+function serializeForStorage(message: AppUIMessage): SerializedMessage {
+  let serialized = serializeMessage(message);
+  if (byteLength(serialized) <= MESSAGE_MAX_BYTES) {
+    return serialized;
+  }
+
+  const parts = [...message.parts];
+  const bySize = parts
+    .map((part, index) => ({
+      index,
+      size: isToolPart(part) ? (JSON.stringify(part.output)?.length ?? 0) : 0,
+    }))
+    .filter(({ size }) => size > 0)
+    .sort((a, b) => b.size - a.size);
+  for (const { index } of bySize) {
+    const part = parts[index];
+    if (!part || !isToolPart(part) || isElidedToolOutput(part.output)) continue;
+    parts[index] = elideToolOutput(
+      part,
+      (tool) =>
+        `This ${tool} result was too large to save with the chat. Call ${tool} again with the same input if you need it.`
+    );
+    serialized = serializeMessage({ ...message, parts });
+    if (byteLength(serialized) <= MESSAGE_MAX_BYTES) {
+      return serialized;
+    }
+  }
+  throw new Error(`Message ${message.id} is too large to save`);
+}
+
+// Split messages into mutation calls that stay under the argument size limit
+function toBatches(messages: SerializedMessage[]): SerializedMessage[][] {
+  const batches: SerializedMessage[][] = [];
+  let batch: SerializedMessage[] = [];
+  let size = 0;
+  for (const message of messages) {
+    const messageSize = byteLength(message);
+    if (batch.length > 0 && size + messageSize > SAVE_BATCH_MAX_BYTES) {
+      batches.push(batch);
+      batch = [];
+      size = 0;
+    }
+    batch.push(message);
+    size += messageSize;
+  }
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+// Persist the message history of a chat for the signed-in user. Only
+// messages that differ from `savedMessages`, the history as it was last
+// saved, are sent; anything Convex turns out not to have is sent afterwards.
+// The token is passed in because this runs after the response has started streaming.
+// Returns false if the chat could not be saved.
+export async function saveChat({
+  chatId,
+  messages,
+  savedMessages = [],
+  token,
+}: {
+  chatId: string;
+  messages: AppUIMessage[];
+  savedMessages?: AppUIMessage[];
+  token: string | undefined;
+}): Promise<boolean> {
+  if (!token) {
+    return false;
+  }
+
+  const messageIds = messages.map((message) => message.id);
+  const saved = new Map(
+    savedMessages.map((message) => [message.id, JSON.stringify(message)])
+  );
+  const send = async (pending: AppUIMessage[]) => {
+    const batches = toBatches(pending.map(serializeForStorage));
+    let missingIds: string[] = [];
+    // With nothing to send, one call still applies the order and drops
+    // removed messages
+    for (const batch of batches.length > 0 ? batches : [[]]) {
+      ({ missingIds } = await fetchMutation(
+        api.chats.saveChat,
+        { chatId, messageIds, messages: batch },
+        { token }
+      ));
+    }
+    // The last call has seen every batch
+    return new Set(missingIds);
+  };
+
+  try {
+    const missingIds = await send(
+      messages.filter(
+        (message) => saved.get(message.id) !== JSON.stringify(message)
+      )
+    );
+    if (missingIds.size > 0) {
+      const stillMissing = await send(
+        messages.filter((message) => missingIds.has(message.id))
+      );
+      if (stillMissing.size > 0) {
+        throw new Error(`${stillMissing.size} messages were not saved`);
+      }
+    }
+    return true;
+  } catch (error) {
+    console.error("Failed to save chat:", error);
+    return false;
+  }
+}
@@ -0,0 +1,128 @@
+// lib/compact-history.ts
+// Keeps long research sessions inside the model's context window by eliding
+// old tool outputs (raw GitHub JSON, sandbox stdout) once they exceed a budget.
+// Recent turns are always sent verbatim; the tool inputs of elided calls are
+// kept so the model can repeat a call if it needs the result again.
+import type { AppToolUIPart, AppUIMessage } from "@/types/chat";
+
+// Number of most recent user turns (and the answers to them) never compacted
+const KEEP_RECENT_TURNS = 2;
+
+// Rough token estimate for JSON payloads (~4 characters per token)
+const CHARS_PER_TOKEN = 4;
+
+type ElidedToolOutput = {
+  elided: true;
+  tool: string;
+  estimatedTokens: number;
+  note: string;
+};
+
+export type CompactionResult = {
+  messages: AppUIMessage[];
+  elidedCount: number;
+  elidedTokens: number;
+};
+
+function estimateTokens(value: unknown): number {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return Math.ceil((text?.length ?? 0) / CHARS_PER_TOKEN);
+}
+
+export function isToolPart(
+  part: AppUIMessage["parts"][number]
+): part is AppToolUIPart {
+  return part.type.startsWith("tool-");
+}
+
+export function isElidedToolOutput(value: unknown): value is ElidedToolOutput {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { elided?: unknown }).elided === true
+  );
+}
+
+// Replace a tool call's output with a note, keeping its input
+export function elideToolOutput(
+  part: AppToolUIPart,
+  note: (tool: string) => string
+): AppToolUIPart {
+  const tool = part.type.slice("tool-".length);
+  const output: ElidedToolOutput = {
+    elided: true,
+    tool,
+    estimatedTokens: estimateTokens(part.output),
+    note: note(tool),
+  };
+  return { ...part, output } as AppToolUIPart;
+}
+
+// Index of the first message that belongs to the last `turns` user turns
+function getRecentStart(messages: AppUIMessage[], turns: number): number {
+  let seen = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i]?.role === "user" && ++seen === turns) {
+      return i;
+    }
+  }
+  return 0;
+}
+
+// Elide the oldest tool outputs, keeping the newest, once their combined size
+// exceeds `budgetTokens`. Outputs in the most recent turns count towards the budget
+// but are never elided.
+export function compactHistory(
+  messages: AppUIMessage[],
+  budgetTokens: number
+): CompactionResult {
+  const recentStart = getRecentStart(messages, KEEP_RECENT_TURNS);
+  let usedTokens = 0;
+  let elidedCount = 0;
+  let elidedTokens = 0;
+
+  for (const message of messages.slice(recentStart)) {
+    for (const part of message.parts) {
+      if (isToolPart(part) && part.state === "output-available") {
+        usedTokens += estimateTokens(part.output);
+      }
+    }
+  }
+
+  const compacted = [...messages];
+  for (let i = recentStart - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (!message) continue;
+    let changed = false;
+    const parts = message.parts.map((part) => {
+      if (
+        !isToolPart(part) ||
+        part.state !== "output-available" ||
+        isElidedToolOutput(part.output)
+      ) {
+        return part;
+      }
+
+      const tokens = estimateTokens(part.output);
+      if (usedTokens + tokens <= budgetTokens) {
+        usedTokens += tokens;
+        return part;
+      }
+
+      changed = true;
+      elidedCount++;
+      elidedTokens += tokens;
+      return elideToolOutput(
+        part,
+        (tool) =>
+          `This ${tool} result was removed from the conversation history to save context. Call ${tool} again with the same input if you need it.`
+      );
+    });
+
+    if (changed) {
+      compacted[i] = { ...message, parts };
+    }
+  }
+
+  return { messages: compacted, elidedCount, elidedTokens };
+}
@@ -0,0 +1,139 @@
+// lib/diff.ts
+// Parses the unified diff "patch" strings GitHub returns for commit, compare
+// and pull request files into hunks, and follows line ranges through them.
+
+export type DiffHunk = {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // Hunk body lines, each starting with " ", "+", "-" or "\"
+  lines: string[];
+};
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export function parsePatch(patch: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  for (const line of patch.split("\n")) {
+    const match = HUNK_HEADER.exec(line);
+    if (match) {
+      current = {
+        header: line,
+        oldStart: Number(match[1]),
+        oldLines: match[2] === undefined ? 1 : Number(match[2]),
+        newStart: Number(match[3]),
+        newLines: match[4] === undefined ? 1 : Number(match[4]),
+        lines: [],
+      };
+      hunks.push(current);
+    } else if (current) {
+      current.lines.push(line);
+    }
+  }
+  return hunks;
+}
+
+export function countChanges(hunks: DiffHunk[]): {
+  additions: number;
+  deletions: number;
+} {
+  let additions = 0;
+  let deletions = 0;
+  for (const hunk of hunks) {
+    for (const line of hunk.lines) {
+      if (line.startsWith("+")) additions++;
+      else if (line.startsWith("-")) deletions++;
+    }
+  }
+  return { additions, deletions };
+}
+
+// Whether the hunk adds or removes lines within [start, end] of the new file.
+// Pure deletions count when they sit between two lines of the range.
+export function hunkTouchesRange(
+  hunk: DiffHunk,
+  start: number,
+  end: number
+): boolean {
+  let newLine = hunk.newStart;
+  for (const line of hunk.lines) {
+    if (line.startsWith("+")) {
+      if (newLine >= start && newLine <= end) return true;
+      newLine++;
+    } else if (line.startsWith("-")) {
+      if (newLine > start && newLine <= end) return true;
+    } else if (line.startsWith(" ")) {
+      newLine++;
+    }
+  }
+  return false;
+}
+
+// Number of lines within [start, end] of the new file added by the diff
+function countAddedLines(hunks: DiffHunk[], start: number, end: number) {
+  let added = 0;
+  for (const hunk of hunks) {
+    let newLine = hunk.newStart;
+    for (const line of hunk.lines) {
+      if (line.startsWith("+")) {
+        if (newLine >= start && newLine <= end) added++;
+        newLine++;
+      } else if (line.startsWith(" ")) {
+        newLine++;
+      }
+    }
+  }
+  return added;
+}
+
+// Map a line range of the new file to the corresponding range of the old
+// file, or null if the diff added every line of it. Added lines have no old
+// counterpart, so a range edge inside a hunk widens to the hunk's old side.
+export function mapRangeToOld(
+  hunks: DiffHunk[],
+  start: number,
+  end: number
+): { start: number; end: number } | null {
+  if (countAddedLines(hunks, start, end) === end - start + 1) {
+    return null;
+  }
+
+  const mapLine = (target: number, edge: "start" | "end") => {
+    let offset = 0;
+    for (const hunk of hunks) {
+      const newEnd = hunk.newStart + hunk.newLines - 1;
+      if (target < hunk.newStart) break;
+      if (target <= newEnd) {
+        // Walk the hunk to find an unchanged line at the target
+        let oldLine = hunk.oldStart;
+        let newLine = hunk.newStart;
+        for (const line of hunk.lines) {
+          if (line.startsWith(" ")) {
+            if (newLine === target) return oldLine;
+            oldLine++;
+            newLine++;
+          } else if (line.startsWith("-")) {
+            oldLine++;
+          } else if (line.startsWith("+")) {
+            newLine++;
+          }
+        }
+        return edge === "start"
+          ? hunk.oldStart
+          : hunk.oldStart + Math.max(hunk.oldLines, 1) - 1;
+      }
+      offset = hunk.oldStart + hunk.oldLines - (hunk.newStart + hunk.newLines);
+    }
+    return target + offset;
+  };
+
+  const oldStart = Math.max(1, mapLine(start, "start"));
+  return { start: oldStart, end: Math.max(oldStart, mapLine(end, "end")) };
+}
+
+export function formatHunk(hunk: DiffHunk): string {
+  return [hunk.header, ...hunk.lines].join("\n");
+}
@@ -0,0 +1,345 @@
+// lib/export-chat.ts
+// Client-side conversation export to JSON, Markdown and printable HTML
+import { Marked } from "marked";
+import type { AppToolUIPart, AppUIMessage } from "@/types/chat";
+
+export type ExportFormat = "json" | "markdown" | "html";
+
+const TITLE_MAX_LENGTH = 80;
+// Long enough for the browser to start the download before the blob goes away
+const REVOKE_DELAY_MS = 10_000;
+
+// Use the first user text part as the title, matching the chat history sidebar
+export function getChatTitle(messages: AppUIMessage[]): string {
+  for (const message of messages) {
+    if (message.role !== "user") continue;
+    const text = message.parts
+      .find((part) => part.type === "text")
+      ?.text.trim();
+    if (text) {
+      return text.length > TITLE_MAX_LENGTH
+        ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…`
+        : text;
+    }
+  }
+  return "New Chat";
+}
+
+function getToolName(part: AppToolUIPart): string {
+  return part.type.slice("tool-".length);
+}
+
+function getToolReason(part: AppToolUIPart): string | undefined {
+  const input =
+    typeof part.input === "object" && part.input !== null
+      ? (part.input as Record<string, unknown>)
+      : {};
+  return typeof input.reason === "string" ? input.reason : undefined;
+}
+
+// Source URLs come from tool output; only web links are made clickable
+function getSafeHref(url: string): string | null {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+// Link text with the characters that would end or nest a link escaped
+function markdownLinkText(text: string): string {
+  return text.replace(/[\\[\]]/g, "\\$&");
+}
+
+// A file part as a Markdown link; inline data URLs (often megabytes) are
+// replaced by the file name
+function markdownFileLink(part: { filename?: string; url: string }): string {
+  const name = markdownLinkText(part.filename ?? "Attachment");
+  return part.url.startsWith("data:")
+    ? `📎 ${name} (attachment not included)`
+    : `[${name}](${part.url})`;
+}
+
+// Markdown renderer for the HTML export. Message text comes from the model
+// and tool output, so raw HTML is shown as text and only web URLs are linked.
+const markdown = new Marked({
+  gfm: true,
+  renderer: {
+    html({ text }) {
+      return escapeHtml(text);
+    },
+    link({ href, title, tokens }) {
+      const text = this.parser.parseInline(tokens);
+      const safeHref = getSafeHref(href);
+      if (!safeHref) {
+        return text;
+      }
+      const titleAttribute = title ? ` title="${escapeHtml(title)}"` : "";
+      return `<a href="${escapeHtml(safeHref)}"${titleAttribute}>${text}</a>`;
+    },
+    image({ href, text }) {
+      const safeHref = getSafeHref(href);
+      return safeHref
+        ? `<img src="${escapeHtml(safeHref)}" alt="${escapeHtml(text)}" />`
+        : escapeHtml(text);
+    },
+  },
+});
+
+function renderMarkdown(text: string): string {
+  return markdown.parse(text, { async: false });
+}
+
+function toJson(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+function isToolPart(
+  part: AppUIMessage["parts"][number]
+): part is AppToolUIPart {
+  return part.type.startsWith("tool-");
+}
+
+// Full-fidelity export, including tool inputs and outputs
+export function exportChatAsJson(
+  messages: AppUIMessage[],
+  title = getChatTitle(messages)
+): string {
+  return JSON.stringify(
+    { title, exportedAt: new Date().toISOString(), messages },
+    null,
+    2
+  );
+}
+
+// Pick a fence longer than any backtick run in the content
+function codeFence(content: string): string {
+  const longest = Math.max(
+    2,
+    ...Array.from(content.matchAll(/`+/g), (match) => match[0].length)
+  );
+  return "`".repeat(longest + 1);
+}
+
+function markdownCodeBlock(content: string, language: string): string {
+  const fence = codeFence(content);
+  return `${fence}${language}\n${content}\n${fence}`;
+}
+
+export function exportChatAsMarkdown(
+  messages: AppUIMessage[],
+  title = getChatTitle(messages)
+): string {
+  const sections: string[] = [`# ${title}`];
+
+  for (const message of messages) {
+    const blocks: string[] = [
+      `## ${message.role === "user" ? "User" : "Assistant"}`,
+    ];
+    const sources: string[] = [];
+
+    for (const part of message.parts) {
+      if (part.type === "text") {
+        blocks.push(part.text);
+      } else if (part.type === "reasoning") {
+        if (!part.text.trim()) continue;
+        blocks.push(
+          `<details>\n<summary>Reasoning</summary>\n\n${part.text}\n\n</details>`
+        );
+      } else if (part.type === "source-url") {
+        const href = getSafeHref(part.url);
+        sources.push(
+          href
+            ? `- [${markdownLinkText(part.title ?? part.url)}](${href})`
+            : `- ${part.title ? `${part.title} (${part.url})` : part.url}`
+        );
+      } else if (part.type === "file") {
+        blocks.push(markdownFileLink(part));
+      } else if (isToolPart(part)) {
+        const reason = getToolReason(part);
+        const summary = reason
+          ? `${getToolName(part)}: ${reason}`
+          : getToolName(part);
+        const details = [
+          `<details>\n<summary>${escapeHtml(summary)}</summary>`,
+        ];
+        if (part.input !== undefined) {
+          details.push(
+            `**Input**\n\n${markdownCodeBlock(toJson(part.input), "json")}`
+          );
+        }
+        if (part.output !== undefined) {
+          details.push(
+            `**Output**\n\n${markdownCodeBlock(toJson(part.output), "json")}`
+          );
+        }
+        if (part.errorText) {
+          details.push(`**Error**\n\n${markdownCodeBlock(part.errorText, "")}`);
+        }
+        details.push("</details>");
+        blocks.push(details.join("\n\n"));
+      }
+    }
+
+    if (sources.length > 0) {
+      blocks.push(`**Sources**\n\n${sources.join("\n")}`);
+    }
+    sections.push(blocks.join("\n\n"));
+  }
+
+  return `${sections.join("\n\n")}\n`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const PRINT_STYLES = `
+  body { font-family: system-ui, -apple-system, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111; line-height: 1.5; }
+  h1 { font-size: 1.5rem; }
+  .message { border-top: 1px solid #ddd; padding: 1rem 0; break-inside: avoid-page; }
+  .role { font-weight: 600; text-transform: uppercase; font-size: 0.75rem; color: #555; }
+  .text > :first-child { margin-top: 0; }
+  .text > :last-child { margin-bottom: 0; }
+  .text table { border-collapse: collapse; }
+  .text th, .text td { border: 1px solid #ddd; padding: 0.25rem 0.5rem; }
+  .text img { max-width: 100%; }
+  code { font-size: 0.875em; }
+  details { margin: 0.5rem 0; border: 1px solid #ddd; border-radius: 0.375rem; padding: 0.5rem; }
+  summary { font-weight: 500; }
+  pre { white-space: pre-wrap; word-break: break-word; font-size: 0.75rem; background: #f6f6f6; padding: 0.5rem; border-radius: 0.25rem; }
+  a { color: #1d4ed8; }
+  @media print { details { border: none; padding: 0; } }
+`;
+
+export function exportChatAsHtml(
+  messages: AppUIMessage[],
+  title = getChatTitle(messages)
+): string {
+  const body = messages
+    .map((message) => {
+      const parts = message.parts
+        .map((part) => {
+          if (part.type === "text") {
+            return `<div class="text">${renderMarkdown(part.text)}</div>`;
+          }
+          if (part.type === "reasoning" && part.text.trim()) {
+            return `<details><summary>Reasoning</summary><div class="text">${renderMarkdown(part.text)}</div></details>`;
+          }
+          if (part.type === "source-url") {
+            const href = getSafeHref(part.url);
+            const label = escapeHtml(part.title ?? part.url);
+            return href
+              ? `<div>Source: <a href="${escapeHtml(href)}">${label}</a></div>`
+              : `<div>Source: ${part.title ? `${label} (${escapeHtml(part.url)})` : label}</div>`;
+          }
+          if (isToolPart(part)) {
+            const reason = getToolReason(part);
+            const summary = reason
+              ? `${getToolName(part)}: ${reason}`
+              : getToolName(part);
+            const sections = [`<summary>${escapeHtml(summary)}</summary>`];
+            if (part.input !== undefined) {
+              sections.push(
+                `<strong>Input</strong><pre>${escapeHtml(toJson(part.input))}</pre>`
+              );
+            }
+            if (part.output !== undefined) {
+              sections.push(
+                `<strong>Output</strong><pre>${escapeHtml(toJson(part.output))}</pre>`
+              );
+            }
+            if (part.errorText) {
+              sections.push(
+                `<strong>Error</strong><pre>${escapeHtml(part.errorText)}</pre>`
+              );
+            }
+            return `<details>${sections.join("")}</details>`;
+          }
+          return "";
+        })
+        .join("\n");
+      const role = message.role === "user" ? "User" : "Assistant";
+      return `<section class="message"><div class="role">${role}</div>${parts}</section>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>
+`;
+}
+
+function slugify(value: string): string {
+  return (
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "chat"
+  );
+}
+
+function downloadFile(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+// Download JSON/Markdown, or open the HTML export in a new window for printing
+export function exportChat(messages: AppUIMessage[], format: ExportFormat) {
+  const title = getChatTitle(messages);
+  const filename = slugify(title);
+
+  switch (format) {
+    case "json":
+      downloadFile(
+        exportChatAsJson(messages, title),
+        `${filename}.json`,
+        "application/json"
+      );
+      break;
+    case "markdown":
+      downloadFile(
+        exportChatAsMarkdown(messages, title),
+        `${filename}.md`,
+        "text/markdown"
+      );
+      break;
+    case "html": {
+      const printWindow = window.open("", "_blank");
+      if (!printWindow) {
+        // Pop-up blocked - fall back to downloading the file
+        downloadFile(
+          exportChatAsHtml(messages, title),
+          `${filename}.html`,
+          "text/html"
+        );
+        break;
+      }
+      printWindow.document.write(exportChatAsHtml(messages, title));
+      printWindow.document.close();
+      printWindow.focus();
+      printWindow.print();
+      break;
+    }
+  }
+}
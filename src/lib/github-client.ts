@@ -0,0 +1,402 @@
+// lib/github-client.ts
+// Shared Octokit factory for the GitHub tools.
+//
+// GET responses are cached in memory together with their ETag/Last-Modified.
+// Within an endpoint family's TTL a cached response is returned as-is; after
+// that it's revalidated with If-None-Match/If-Modified-Since, and a 304 (which
+// doesn't count against the rate limit) refreshes the cached copy.
+//
+// Entries are scoped per token. Signed-out requests share a "public" scope,
+// which signed-in users may also read for families that only return public,
+// user-independent data (file contents, git objects, releases).
+//
+// Requests that reach GitHub go through a per-token, per-resource queue
+// (core/search/code_search/graphql) that limits concurrency and spaces them
+// out, tracks the remaining budget from the x-ratelimit-* headers, waits out
+// short primary limit resets and retries secondary rate limits after
+// retry-after.
+import { createHash } from "node:crypto";
+import { Octokit } from "@octokit/rest";
+
+type GitHubResponse = Awaited<ReturnType<Octokit["request"]>>;
+
+type CacheFamily = {
+  // How long a cached response is served without revalidating
+  ttlMs: number;
+  // Whether signed-in users may read entries cached by signed-out requests
+  shared: boolean;
+};
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+// Matched against the request path in order; the first match wins
+const CACHE_FAMILIES: Array<CacheFamily & { pattern: RegExp }> = [
+  // Git objects addressed by SHA never change
+  {
+    pattern: /\/git\/(blobs|trees|commits)\/[0-9a-f]{40}$/,
+    ttlMs: 24 * 60 * MINUTE,
+    shared: true,
+  },
+  // CI state changes quickly
+  {
+    pattern: /\/(actions|check-runs|check-suites|status|statuses)(\/|$)/,
+    ttlMs: 15 * SECOND,
+    shared: false,
+  },
+  {
+    pattern: /^\/(user|notifications)(\/|$)/,
+    ttlMs: 30 * SECOND,
+    shared: false,
+  },
+  // Signed-in searches also return private results
+  { pattern: /^\/search\//, ttlMs: MINUTE, shared: false },
+  { pattern: /\/(contents|readme)(\/|$)/, ttlMs: 5 * MINUTE, shared: true },
+  {
+    pattern: /\/(releases|tags|languages|license|topics)(\/|$)/,
+    ttlMs: 10 * MINUTE,
+    shared: true,
+  },
+];
+
+const DEFAULT_CACHE_FAMILY: CacheFamily = { ttlMs: 2 * MINUTE, shared: false };
+
+const PUBLIC_SCOPE = "public";
+const CACHE_MAX_ENTRIES = 1000;
+// Approximate serialized size of all cached response bodies
+const CACHE_MAX_CHARS = 20_000_000;
+
+type CacheEntry = {
+  response: GitHubResponse;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+  size: number;
+};
+
+// Least recently used entries first (Map iteration follows insertion order)
+const responseCache = new Map<string, CacheEntry>();
+let responseCacheChars = 0;
+
+function getCacheFamily(path: string): CacheFamily {
+  return (
+    CACHE_FAMILIES.find((family) => family.pattern.test(path)) ??
+    DEFAULT_CACHE_FAMILY
+  );
+}
+
+function getEntry(key: string): CacheEntry | undefined {
+  const entry = responseCache.get(key);
+  if (entry) {
+    responseCache.delete(key);
+    responseCache.set(key, entry);
+  }
+  return entry;
+}
+
+function setEntry(key: string, response: GitHubResponse) {
+  const etag = response.headers.etag;
+  const lastModified = response.headers["last-modified"];
+  if (!etag && !lastModified) {
+    return;
+  }
+
+  deleteEntry(key);
+  const size = JSON.stringify(response.data)?.length ?? 0;
+  if (size > CACHE_MAX_CHARS / 10) {
+    return;
+  }
+  // Callers own the response they get and may mutate its data, so the cache
+  // keeps its own copy and hands out copies (see cachedResponse)
+  responseCache.set(key, {
+    response: structuredClone(response),
+    etag,
+    lastModified,
+    storedAt: Date.now(),
+    size,
+  });
+  responseCacheChars += size;
+
+  for (const oldestKey of responseCache.keys()) {
+    if (
+      responseCache.size <= CACHE_MAX_ENTRIES &&
+      responseCacheChars <= CACHE_MAX_CHARS
+    ) {
+      break;
+    }
+    deleteEntry(oldestKey);
+  }
+}
+
+function cachedResponse(entry: CacheEntry): GitHubResponse {
+  return structuredClone(entry.response);
+}
+
+function deleteEntry(key: string) {
+  const entry = responseCache.get(key);
+  if (entry) {
+    responseCacheChars -= entry.size;
+    responseCache.delete(key);
+  }
+}
+
+function getTokenScope(githubToken: string | null): string {
+  return githubToken
+    ? `token:${createHash("sha256").update(githubToken).digest("hex").slice(0, 16)}`
+    : PUBLIC_SCOPE;
+}
+
+function isNotModified(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "status" in error &&
+    (error as { status: unknown }).status === 304
+  );
+}
+
+// Requests in flight and spacing per resource, following GitHub's guidance to
+// avoid concurrent bursts (secondary rate limits). Search allows 30 requests
+// per minute and code search 10.
+const RESOURCE_LANES = {
+  core: { concurrency: 4, minIntervalMs: 50 },
+  search: { concurrency: 1, minIntervalMs: 2 * SECOND },
+  code_search: { concurrency: 1, minIntervalMs: 6 * SECOND },
+  graphql: { concurrency: 2, minIntervalMs: 250 },
+} as const;
+
+export type GitHubResource = keyof typeof RESOURCE_LANES;
+
+// Longest wait for an exhausted limit to reset before failing instead
+const MAX_RATE_LIMIT_WAIT_MS = 30 * SECOND;
+const MAX_SECONDARY_RETRIES = 2;
+
+export type RateLimitBudget = {
+  limit: number;
+  remaining: number;
+  resetAt: string;
+};
+
+type Lane = { active: number; nextStart: number; waiting: Array<() => void> };
+
+const lanes = new Map<string, Lane>();
+const budgets = new Map<
+  string,
+  Map<string, { limit: number; remaining: number; reset: number }>
+>();
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function getResource(path: string): GitHubResource {
+  if (path === "/graphql") return "graphql";
+  if (path.startsWith("/search/code")) return "code_search";
+  if (path.startsWith("/search/")) return "search";
+  return "core";
+}
+
+async function acquireLane(key: string, resource: GitHubResource) {
+  const config = RESOURCE_LANES[resource];
+  let lane = lanes.get(key);
+  if (!lane) {
+    lane = { active: 0, nextStart: 0, waiting: [] };
+    lanes.set(key, lane);
+  }
+  while (lane.active >= config.concurrency) {
+    await new Promise<void>((resolve) => lane.waiting.push(resolve));
+  }
+  lane.active++;
+  const now = Date.now();
+  const start = Math.max(now, lane.nextStart);
+  lane.nextStart = start + config.minIntervalMs;
+  if (start > now) {
+    await sleep(start - now);
+  }
+  return () => {
+    lane.active--;
+    lane.waiting.shift()?.();
+  };
+}
+
+type ResponseHeaders = Record<string, string | number | undefined>;
+
+// Headers of a response, or of the response attached to a RequestError
+function getHeaders(value: unknown): ResponseHeaders {
+  if (typeof value !== "object" || value === null) {
+    return {};
+  }
+  if ("response" in value) {
+    return (
+      (value as { response?: { headers?: ResponseHeaders } }).response
+        ?.headers ?? {}
+    );
+  }
+  if ("headers" in value) {
+    return (value as { headers: ResponseHeaders }).headers;
+  }
+  return {};
+}
+
+function recordBudget(scope: string, headers: ResponseHeaders) {
+  const resource = headers["x-ratelimit-resource"];
+  const limit = headers["x-ratelimit-limit"];
+  const remaining = headers["x-ratelimit-remaining"];
+  const reset = headers["x-ratelimit-reset"];
+  if (resource === undefined || remaining === undefined) {
+    return;
+  }
+  let scopeBudgets = budgets.get(scope);
+  if (!scopeBudgets) {
+    scopeBudgets = new Map();
+    budgets.set(scope, scopeBudgets);
+  }
+  scopeBudgets.set(String(resource), {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    reset: Number(reset) * 1000,
+  });
+}
+
+function getStatus(error: unknown): number | undefined {
+  return typeof error === "object" && error !== null && "status" in error
+    ? Number((error as { status: unknown }).status)
+    : undefined;
+}
+
+// Milliseconds to wait before retrying a rate limited request, or null if it
+// shouldn't be retried
+function getRetryDelay(error: unknown): number | null {
+  const status = getStatus(error);
+  if (status !== 403 && status !== 429) {
+    return null;
+  }
+  const headers = getHeaders(error);
+  const retryAfter = headers["retry-after"];
+  if (retryAfter !== undefined) {
+    return Number(retryAfter) * 1000;
+  }
+  // Primary limit exhausted: wait for the reset
+  if (String(headers["x-ratelimit-remaining"]) === "0") {
+    return Math.max(
+      0,
+      Number(headers["x-ratelimit-reset"]) * 1000 - Date.now()
+    );
+  }
+  const message = error instanceof Error ? error.message : "";
+  // Secondary limits without retry-after: GitHub asks to wait at least a minute
+  return /secondary rate limit|abuse/i.test(message) ? 60 * SECOND : null;
+}
+
+// Remaining GitHub API budget per resource for a token, as last reported by GitHub
+export function getRateLimitBudget(
+  githubToken: string | null
+): Record<string, RateLimitBudget> {
+  const scopeBudgets = budgets.get(getTokenScope(githubToken));
+  const result: Record<string, RateLimitBudget> = {};
+  for (const [resource, budget] of scopeBudgets ?? []) {
+    // A reset in the past means the budget has been refilled
+    const refilled = budget.reset <= Date.now();
+    result[resource] = {
+      limit: budget.limit,
+      remaining: refilled ? budget.limit : budget.remaining,
+      resetAt: new Date(budget.reset).toISOString(),
+    };
+  }
+  return result;
+}
+
+// Create an Octokit client for the given token (or an unauthenticated one)
+// with the conditional-request cache and rate limit handling installed
+export function createGitHubClient(githubToken: string | null): Octokit {
+  const octokit = githubToken
+    ? new Octokit({ auth: githubToken })
+    : new Octokit();
+  const scope = getTokenScope(githubToken);
+
+  // Queue the request in its resource lane and retry rate limits
+  const send = async (
+    request: () => Promise<GitHubResponse>,
+    resource: GitHubResource
+  ): Promise<GitHubResponse> => {
+    for (let attempt = 0; ; attempt++) {
+      const budget = budgets.get(scope)?.get(resource);
+      if (budget && budget.remaining === 0 && budget.reset > Date.now()) {
+        const wait = budget.reset - Date.now();
+        if (wait > MAX_RATE_LIMIT_WAIT_MS) {
+          throw new Error(
+            `GitHub API rate limit for ${resource} requests exhausted. Reset time: ${new Date(budget.reset).toISOString()}.`
+          );
+        }
+        await sleep(wait);
+      }
+
+      const release = await acquireLane(`${scope} ${resource}`, resource);
+      let delay: number | null;
+      try {
+        const response = await request();
+        recordBudget(scope, response.headers);
+        return response;
+      } catch (error: unknown) {
+        recordBudget(scope, getHeaders(error));
+        delay = getRetryDelay(error);
+        if (
+          delay === null ||
+          delay > MAX_RATE_LIMIT_WAIT_MS * 2 ||
+          attempt >= MAX_SECONDARY_RETRIES
+        ) {
+          throw error;
+        }
+      } finally {
+        release();
+      }
+      // Wait outside the lane so other requests aren't blocked meanwhile
+      await sleep(delay);
+    }
+  };
+
+  octokit.hook.wrap("request", async (request, options) => {
+    const { url } = octokit.request.endpoint.parse(options);
+    const path = new URL(url).pathname;
+    const resource = getResource(path);
+    if (options.method !== "GET") {
+      return send(async () => request(options), resource);
+    }
+
+    const family = getCacheFamily(path);
+    const requestKey = `${url} ${options.headers.accept ?? ""}`;
+    const key = `${scope} ${requestKey}`;
+
+    const own = getEntry(key);
+    const entry =
+      own ??
+      (family.shared && scope !== PUBLIC_SCOPE
+        ? getEntry(`${PUBLIC_SCOPE} ${requestKey}`)
+        : undefined);
+    if (entry && Date.now() - entry.storedAt < family.ttlMs) {
+      return cachedResponse(entry);
+    }
+
+    // Validators are only sent for our own entries; ETags vary by token.
+    // Inner hooks are bound to this options object, so set them in place.
+    if (own?.etag) {
+      options.headers["if-none-match"] = own.etag;
+    } else if (own?.lastModified) {
+      options.headers["if-modified-since"] = own.lastModified;
+    }
+
+    try {
+      const response = await send(async () => request(options), resource);
+      setEntry(key, response);
+      return response;
+    } catch (error: unknown) {
+      if (own && isNotModified(error)) {
+        own.storedAt = Date.now();
+        return cachedResponse(own);
+      }
+      throw error;
+    }
+  });
+
+  return octokit;
+}
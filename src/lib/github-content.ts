@@ -0,0 +1,204 @@
+// lib/github-content.ts
+// Normalizes GitHub contents, readme and blob responses for the model:
+// base64 file content is decoded to numbered UTF-8 text, binary files are
+// replaced by metadata and directory listings are compacted.
+
+// Files whose first bytes contain NUL or that aren't valid UTF-8 are treated as binary
+const BINARY_SNIFF_BYTES = 8000;
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: "typescript",
+  tsx: "tsx",
+  mts: "typescript",
+  cts: "typescript",
+  js: "javascript",
+  jsx: "jsx",
+  mjs: "javascript",
+  cjs: "javascript",
+  json: "json",
+  jsonc: "jsonc",
+  md: "markdown",
+  mdx: "mdx",
+  py: "python",
+  rb: "ruby",
+  go: "go",
+  rs: "rust",
+  java: "java",
+  kt: "kotlin",
+  swift: "swift",
+  c: "c",
+  h: "c",
+  cc: "cpp",
+  cpp: "cpp",
+  hpp: "cpp",
+  cs: "csharp",
+  php: "php",
+  scala: "scala",
+  ex: "elixir",
+  exs: "elixir",
+  erl: "erlang",
+  hs: "haskell",
+  lua: "lua",
+  dart: "dart",
+  vue: "vue",
+  svelte: "svelte",
+  astro: "astro",
+  css: "css",
+  scss: "scss",
+  less: "less",
+  html: "html",
+  xml: "xml",
+  svg: "xml",
+  yml: "yaml",
+  yaml: "yaml",
+  toml: "toml",
+  ini: "ini",
+  sh: "bash",
+  bash: "bash",
+  zsh: "bash",
+  ps1: "powershell",
+  sql: "sql",
+  graphql: "graphql",
+  gql: "graphql",
+  proto: "protobuf",
+  tf: "hcl",
+  txt: "text",
+};
+
+const LANGUAGE_BY_FILENAME: Record<string, string> = {
+  dockerfile: "dockerfile",
+  makefile: "makefile",
+  gemfile: "ruby",
+  rakefile: "ruby",
+  "cmakelists.txt": "cmake",
+  license: "text",
+};
+
+export function detectLanguage(path: string): string | null {
+  const name = path.split("/").pop()?.toLowerCase() ?? "";
+  const byName = LANGUAGE_BY_FILENAME[name];
+  if (byName) {
+    return byName;
+  }
+  const extension = name.includes(".") ? name.split(".").pop() : undefined;
+  return (extension && LANGUAGE_BY_EXTENSION[extension]) || null;
+}
+
+// Decode base64 content, or return null if it isn't UTF-8 text
+export function decodeText(base64: string): string | null {
+  const bytes = Buffer.from(base64, "base64");
+  if (bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0)) {
+    return null;
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+// Prefix each line with its 1-based line number, like `cat -n`
+export function numberLines(text: string): string {
+  const lines = text.replace(/\n$/, "").split("\n");
+  const width = String(lines.length).length;
+  return lines
+    .map((line, index) => `${String(index + 1).padStart(width)}  ${line}`)
+    .join("\n");
+}
+
+type RawContent = {
+  type?: string;
+  name?: string;
+  path?: string;
+  sha?: string;
+  size?: number;
+  encoding?: string;
+  content?: string;
+  html_url?: string | null;
+  download_url?: string | null;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Contents/readme file objects and git blobs carry base64 content
+function isEncodedContent(value: unknown): value is RawContent {
+  return (
+    isRecord(value) &&
+    typeof value.sha === "string" &&
+    "encoding" in value &&
+    "content" in value &&
+    (value.type === "file" || value.type === undefined)
+  );
+}
+
+// Entries of a contents directory listing
+function isDirectoryListing(value: unknown): value is RawContent[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (item) =>
+        isRecord(item) &&
+        typeof item.name === "string" &&
+        typeof item.path === "string" &&
+        typeof item.sha === "string" &&
+        ["file", "dir", "symlink", "submodule"].includes(String(item.type))
+    )
+  );
+}
+
+function normalizeFile(file: RawContent) {
+  const path = file.path ?? null;
+  const metadata = {
+    type: "file" as const,
+    path,
+    sha: file.sha,
+    size: file.size,
+    language: path ? detectLanguage(path) : null,
+    ...(file.html_url ? { htmlUrl: file.html_url } : {}),
+  };
+
+  // Files over 1 MB come back without content
+  if (file.encoding !== "base64" || !file.content) {
+    return {
+      ...metadata,
+      note: "Content not included (file too large for the contents API). Use the sandbox or the download URL to read it.",
+      ...(file.download_url ? { downloadUrl: file.download_url } : {}),
+    };
+  }
+
+  const text = decodeText(file.content);
+  if (text === null) {
+    return {
+      ...metadata,
+      binary: true,
+      note: "Binary file - content omitted.",
+      ...(file.download_url ? { downloadUrl: file.download_url } : {}),
+    };
+  }
+
+  return {
+    ...metadata,
+    encoding: "utf-8",
+    lineCount: text === "" ? 0 : text.replace(/\n$/, "").split("\n").length,
+    content: numberLines(text),
+  };
+}
+
+// Replace GitHub contents/readme/blob payloads with decoded, compact forms.
+// Anything else is returned unchanged.
+export function normalizeGitHubContent(data: unknown): unknown {
+  if (isEncodedContent(data)) {
+    return normalizeFile(data);
+  }
+  if (isDirectoryListing(data)) {
+    return data.map((entry) => ({
+      name: entry.name,
+      type: entry.type,
+      ...(entry.type === "file" ? { size: entry.size } : {}),
+    }));
+  }
+  return data;
+}
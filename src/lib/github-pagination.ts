@@ -0,0 +1,164 @@
+// lib/github-pagination.ts
+// Follows the Link header of GitHub list endpoints and concatenates the pages.
+// Search results ({ total_count, items }) and wrapped lists such as
+// { total_count, workflow_runs } are unwrapped to their items. Where a run
+// stops, an opaque cursor records the next page (and how many of its items
+// were already returned) so the model can continue from exactly there.
+import type { Octokit } from "@octokit/rest";
+
+// Hard cap on the serialized size of the concatenated items, so a long list
+// can't hold a huge payload in memory
+const PAGINATE_MAX_CHARS = 200_000;
+
+export type PaginateOptions = {
+  maxPages: number;
+  maxItems: number;
+};
+
+export type PaginatedResult = {
+  items: unknown[];
+  pages: number;
+  // total_count reported by search and wrapped list endpoints
+  totalCount: number | null;
+  incompleteResults?: boolean;
+  truncated: boolean;
+  nextCursor: string | null;
+};
+
+type Cursor = { url: string; skip: number };
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(value: string): Cursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+    if (
+      typeof cursor?.url === "string" &&
+      new URL(cursor.url).origin === "https://api.github.com" &&
+      Number.isInteger(cursor.skip) &&
+      cursor.skip >= 0
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(
+    "Invalid pagination cursor. Pass the nextCursor value from a previous result unchanged."
+  );
+}
+
+// URL of the rel="next" page in a Link header, if any
+export function parseNextLink(link: string | undefined): string | null {
+  const match = link?.match(/<([^>]+)>;\s*rel="next"/);
+  return match?.[1] ?? null;
+}
+
+// The list of items on one page, plus search/list metadata when present
+export function unwrapPage(data: unknown): {
+  items: unknown[];
+  totalCount: number | null;
+  incompleteResults?: boolean;
+} | null {
+  if (Array.isArray(data)) {
+    return { items: data, totalCount: null };
+  }
+  if (typeof data !== "object" || data === null || !("total_count" in data)) {
+    return null;
+  }
+  // Search results use "items"; other wrapped lists have a single array field
+  // (workflow_runs, check_runs, artifacts, repositories, ...)
+  const record = data as Record<string, unknown>;
+  const arrayKey =
+    "items" in record
+      ? "items"
+      : Object.keys(record).find((key) => Array.isArray(record[key]));
+  const items = arrayKey ? record[arrayKey] : undefined;
+  if (!Array.isArray(items)) {
+    return null;
+  }
+  return {
+    items,
+    totalCount: Number(record.total_count),
+    ...(typeof record.incomplete_results === "boolean"
+      ? { incompleteResults: record.incomplete_results }
+      : {}),
+  };
+}
+
+// Fetch up to maxPages pages starting with the given route (or a cursor),
+// collecting at most maxItems items. Items are passed through `project`
+// before they count toward the size cap.
+export async function paginateGitHub(
+  octokit: Octokit,
+  start: { route: string; params: Record<string, unknown> } | Cursor,
+  { maxPages, maxItems }: PaginateOptions,
+  project: (item: unknown) => unknown = (item) => item
+): Promise<PaginatedResult> {
+  const items: unknown[] = [];
+  let totalCount: number | null = null;
+  let incompleteResults: boolean | undefined;
+  let size = 0;
+  let pages = 0;
+
+  const result = (nextCursor: Cursor | null): PaginatedResult => ({
+    items,
+    pages,
+    totalCount,
+    ...(incompleteResults ? { incompleteResults } : {}),
+    truncated: nextCursor !== null,
+    nextCursor: nextCursor ? encodeCursor(nextCursor) : null,
+  });
+
+  let request =
+    "route" in start
+      ? {
+          url: octokit.request.endpoint(start.route, start.params).url,
+          skip: 0,
+        }
+      : start;
+
+  while (pages < maxPages) {
+    const response = await octokit.request(`GET ${request.url}`);
+    pages++;
+
+    const page = unwrapPage(response.data);
+    if (!page) {
+      throw new Error(
+        "This endpoint doesn't return a list, so it can't be paginated. Call it without paginate."
+      );
+    }
+    totalCount = page.totalCount ?? totalCount;
+    if (page.incompleteResults) {
+      incompleteResults = true;
+    }
+
+    for (let index = request.skip; index < page.items.length; index++) {
+      const item = project(page.items[index]);
+      const itemSize = JSON.stringify(item)?.length ?? 0;
+      if (
+        items.length >= maxItems ||
+        (items.length > 0 && size + itemSize > PAGINATE_MAX_CHARS)
+      ) {
+        // Resume within this page next time
+        return result({ url: request.url, skip: index });
+      }
+      items.push(item);
+      size += itemSize;
+    }
+
+    const nextUrl = parseNextLink(response.headers.link);
+    if (!nextUrl) {
+      return result(null);
+    }
+    if (items.length >= maxItems) {
+      return result({ url: nextUrl, skip: 0 });
+    }
+    request = { url: nextUrl, skip: 0 };
+  }
+
+  // Stopped at maxPages with more pages left
+  return result(request);
+}
@@ -0,0 +1,210 @@
+// lib/github-projection.ts
+// Trims GitHub REST responses before they reach the model. Explicit `fields`
+// paths win; otherwise repos, issues, pulls and check runs are projected to
+// the fields the model actually uses, and everything else only loses the
+// hypermedia *_url fields (API links and URL templates such as
+// "https://api.github.com/repos/o/r/git/blobs{/sha}").
+import { projectFields } from "@/lib/json-path";
+
+// Passing this as the only field returns the response untouched
+export const ALL_FIELDS = "*";
+
+// *_url fields that point somewhere useful for the user or the model
+const KEPT_URL_FIELDS = new Set([
+  "html_url",
+  "download_url",
+  "browser_download_url",
+  "details_url",
+  // The only pointer to the repository in issue search results
+  "repository_url",
+]);
+
+const REPO_FIELDS = [
+  "full_name",
+  "description",
+  "html_url",
+  "homepage",
+  "private",
+  "visibility",
+  "fork",
+  "archived",
+  "default_branch",
+  "language",
+  "topics",
+  "license.spdx_id",
+  "stargazers_count",
+  "forks_count",
+  "open_issues_count",
+  "created_at",
+  "updated_at",
+  "pushed_at",
+];
+
+const ISSUE_FIELDS = [
+  "number",
+  "title",
+  "state",
+  "state_reason",
+  "draft",
+  "html_url",
+  "repository_url",
+  "user.login",
+  "labels[].name",
+  "assignees[].login",
+  "milestone.title",
+  "comments",
+  "created_at",
+  "updated_at",
+  "closed_at",
+  "pull_request.merged_at",
+  "body",
+];
+
+const PULL_FIELDS = [
+  "number",
+  "title",
+  "state",
+  "draft",
+  "html_url",
+  "user.login",
+  "head.ref",
+  "head.sha",
+  "head.repo.full_name",
+  "base.ref",
+  "base.repo.full_name",
+  "merged",
+  "merged_at",
+  "mergeable",
+  "mergeable_state",
+  "labels[].name",
+  "assignees[].login",
+  "requested_reviewers[].login",
+  "comments",
+  "review_comments",
+  "commits",
+  "additions",
+  "deletions",
+  "changed_files",
+  "created_at",
+  "updated_at",
+  "closed_at",
+  "body",
+];
+
+const CHECK_RUN_FIELDS = [
+  "id",
+  "name",
+  "head_sha",
+  "status",
+  "conclusion",
+  "started_at",
+  "completed_at",
+  "html_url",
+  "details_url",
+  "app.slug",
+  "output.title",
+  "output.summary",
+  "output.annotations_count",
+];
+
+// Endpoint families by API path (without query string)
+const DEFAULT_PROJECTIONS: Array<{ pattern: RegExp; fields: string[] }> = [
+  {
+    pattern:
+      /^\/(repos\/[^/]+\/[^/]+(\/forks)?|(user|users\/[^/]+|orgs\/[^/]+)\/repos|search\/repositories)$/,
+    fields: REPO_FIELDS,
+  },
+  {
+    pattern: /^\/repos\/[^/]+\/[^/]+\/pulls(\/\d+)?$/,
+    fields: PULL_FIELDS,
+  },
+  {
+    pattern:
+      /^\/(repos\/[^/]+\/[^/]+\/issues(\/\d+)?|issues|user\/issues|orgs\/[^/]+\/issues|search\/issues)$/,
+    fields: ISSUE_FIELDS,
+  },
+  {
+    pattern:
+      /^\/repos\/[^/]+\/[^/]+\/(commits\/[^/]+\/check-runs|check-suites\/\d+\/check-runs|check-runs\/\d+)$/,
+    fields: CHECK_RUN_FIELDS,
+  },
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Remove *_url fields (except useful links) at any depth
+export function stripUrlFields(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(stripUrlFields);
+  }
+  if (!isRecord(value)) {
+    return value;
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (key.endsWith("_url") && !KEPT_URL_FIELDS.has(key)) continue;
+    result[key] = stripUrlFields(field);
+  }
+  return result;
+}
+
+// Split comma-separated entries, so "a,b" and ["a", "b"] are equivalent
+export function normalizeFields(fields: string[]): string[] {
+  return fields
+    .flatMap((field) => field.split(","))
+    .map((field) => field.trim())
+    .filter(Boolean);
+}
+
+function getDefaultFields(path: string): string[] | undefined {
+  const pathname = path.split("?")[0] ?? path;
+  return DEFAULT_PROJECTIONS.find(({ pattern }) => pattern.test(pathname))
+    ?.fields;
+}
+
+// Project a single list item. Item paths may be written against the search
+// response ("items[].full_name") or the item itself ("full_name").
+export function projectGitHubItem(
+  path: string,
+  item: unknown,
+  fields?: string[]
+): unknown {
+  if (fields && fields.length > 0) {
+    if (fields.includes(ALL_FIELDS)) {
+      return item;
+    }
+    return projectFields(
+      item,
+      fields.map((field) => field.replace(/^items(\[\])?\./, ""))
+    );
+  }
+  const defaults = getDefaultFields(path);
+  return defaults ? projectFields(item, defaults) : stripUrlFields(item);
+}
+
+// Project a whole response: a single object, a list, or a wrapped list such
+// as { total_count, items } or { total_count, check_runs }
+export function projectGitHubResponse(
+  path: string,
+  data: unknown,
+  fields?: string[]
+): unknown {
+  if (fields && fields.length > 0) {
+    return fields.includes(ALL_FIELDS) ? data : projectFields(data, fields);
+  }
+  if (Array.isArray(data)) {
+    return data.map((item) => projectGitHubItem(path, item));
+  }
+  if (isRecord(data) && "total_count" in data) {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data)) {
+      result[key] = Array.isArray(value)
+        ? value.map((item) => projectGitHubItem(path, item))
+        : value;
+    }
+    return result;
+  }
+  return projectGitHubItem(path, data);
+}
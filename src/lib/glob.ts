@@ -0,0 +1,86 @@
+// lib/glob.ts
+// Small glob matcher for repository paths, following .gitignore conventions:
+// - "*" matches within a path segment, "?" one character, "**" any number of
+//   segments, "{a,b}" alternatives and "[abc]" / "[!abc]" character classes
+// - a pattern without "/" matches the name at any depth ("*.md", "node_modules")
+// - a leading "/" anchors the pattern to the root, a trailing "/" matches a
+//   directory and everything inside it
+
+const REGEX_SPECIAL = /[.+^$()|\\]/;
+
+export function globToRegExp(pattern: string): RegExp {
+  let glob = pattern.trim();
+  if (glob.startsWith("/")) {
+    glob = glob.slice(1);
+  } else if (!glob.slice(0, -1).includes("/")) {
+    glob = `**/${glob}`;
+  }
+  // "dir/" and "dir/**" match the directory itself and everything inside it
+  let suffix = "";
+  if (glob.endsWith("/")) {
+    glob = glob.slice(0, -1);
+    suffix = "(?:/.*)?";
+  } else if (glob.endsWith("/**")) {
+    glob = glob.slice(0, -3);
+    suffix = "(?:/.*)?";
+  }
+
+  let source = "";
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i] ?? "";
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories; a trailing "**" anything
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 2);
+      if (end === -1) {
+        source += "\\[";
+        continue;
+      }
+      let body = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+      if (body.startsWith("!")) {
+        body = `^${body.slice(1)}`;
+      }
+      source += `[${body}]`;
+      i = end;
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else if (REGEX_SPECIAL.test(char) || char === "}" || char === "]") {
+      source += `\\${char}`;
+    } else {
+      source += char;
+    }
+  }
+  if (braceDepth > 0) {
+    throw new Error(`Invalid glob "${pattern}": unclosed "{"`);
+  }
+
+  return new RegExp(`^${source}${suffix}$`);
+}
+
+// Test a path against any of the given patterns
+export function createGlobMatcher(
+  patterns: string[]
+): (path: string) => boolean {
+  const regexes = patterns.map(globToRegExp);
+  return (path) => regexes.some((regex) => regex.test(path));
+}
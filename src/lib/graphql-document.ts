@@ -0,0 +1,347 @@
+// lib/graphql-document.ts
+// Minimal GraphQL document parser used to vet model-written queries before
+// they're sent to GitHub: it finds the operation type, expands fragments and
+// estimates node count and rate limit cost the way GitHub computes them
+// (https://docs.github.com/en/graphql/overview/rate-limits-and-node-limits-for-the-graphql-api).
+
+type Token = {
+  kind: "punct" | "name" | "number" | "string";
+  value: string;
+  start: number;
+};
+
+type ArgumentValue =
+  | { kind: "int"; value: number }
+  | { kind: "variable"; name: string }
+  | { kind: "other" };
+
+type Field = {
+  kind: "field";
+  name: string;
+  args: Record<string, ArgumentValue>;
+  selections: Selection[];
+};
+
+type Selection =
+  | Field
+  | { kind: "spread"; name: string }
+  | { kind: "inline"; selections: Selection[] };
+
+export type OperationType = "query" | "mutation" | "subscription";
+
+export type Operation = {
+  type: OperationType;
+  selections: Selection[];
+  // Offset of the closing brace of the operation's top-level selection set
+  end: number;
+};
+
+export type GraphqlDocument = {
+  operations: Operation[];
+  fragments: Map<string, Selection[]>;
+};
+
+const PUNCTUATORS = "!$&()[]{}:=@|";
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i] ?? "";
+    if (/[\s,]/.test(char)) {
+      i++;
+    } else if (char === "#") {
+      while (i < source.length && source[i] !== "\n") i++;
+    } else if (source.startsWith("...", i)) {
+      tokens.push({ kind: "punct", value: "...", start: i });
+      i += 3;
+    } else if (PUNCTUATORS.includes(char)) {
+      tokens.push({ kind: "punct", value: char, start: i });
+      i++;
+    } else if (/[_A-Za-z]/.test(char)) {
+      const match = /^[_A-Za-z][_0-9A-Za-z]*/.exec(source.slice(i));
+      const value = match?.[0] ?? char;
+      tokens.push({ kind: "name", value, start: i });
+      i += value.length;
+    } else if (/[-0-9]/.test(char)) {
+      const match = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) {
+        throw new Error(`Unexpected character "${char}" at offset ${i}`);
+      }
+      tokens.push({ kind: "number", value: match[0], start: i });
+      i += match[0].length;
+    } else if (source.startsWith('"""', i)) {
+      const end = source.indexOf('"""', i + 3);
+      if (end === -1) {
+        throw new Error("Unterminated block string");
+      }
+      tokens.push({
+        kind: "string",
+        value: source.slice(i + 3, end),
+        start: i,
+      });
+      i = end + 3;
+    } else if (char === '"') {
+      let j = i + 1;
+      while (j < source.length && source[j] !== '"') {
+        if (source[j] === "\\") j++;
+        if (source[j] === "\n") {
+          throw new Error("Unterminated string");
+        }
+        j++;
+      }
+      if (j >= source.length) {
+        throw new Error("Unterminated string");
+      }
+      tokens.push({ kind: "string", value: source.slice(i + 1, j), start: i });
+      i = j + 1;
+    } else {
+      throw new Error(`Unexpected character "${char}" at offset ${i}`);
+    }
+  }
+  return tokens;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new Error("Unexpected end of document");
+    }
+    return token;
+  }
+
+  private is(value: string): boolean {
+    return this.peek()?.value === value && this.peek()?.kind !== "string";
+  }
+
+  private expect(value: string): Token {
+    const token = this.next();
+    if (token.value !== value || token.kind === "string") {
+      throw new Error(
+        `Expected "${value}" but found "${token.value}" at offset ${token.start}`
+      );
+    }
+    return token;
+  }
+
+  private name(): string {
+    const token = this.next();
+    if (token.kind !== "name") {
+      throw new Error(
+        `Expected a name but found "${token.value}" at offset ${token.start}`
+      );
+    }
+    return token.value;
+  }
+
+  parseDocument(): GraphqlDocument {
+    const operations: Operation[] = [];
+    const fragments = new Map<string, Selection[]>();
+
+    while (this.peek()) {
+      if (this.is("{")) {
+        const { selections, end } = this.selectionSet();
+        operations.push({ type: "query", selections, end });
+        continue;
+      }
+
+      const keyword = this.name();
+      if (keyword === "fragment") {
+        const name = this.name();
+        this.expect("on");
+        this.name();
+        this.directives();
+        fragments.set(name, this.selectionSet().selections);
+      } else if (
+        keyword === "query" ||
+        keyword === "mutation" ||
+        keyword === "subscription"
+      ) {
+        if (this.peek()?.kind === "name") {
+          this.name();
+        }
+        if (this.is("(")) {
+          this.skipBalanced("(", ")");
+        }
+        this.directives();
+        const { selections, end } = this.selectionSet();
+        operations.push({ type: keyword, selections, end });
+      } else {
+        throw new Error(
+          `Unsupported definition "${keyword}". Only queries and fragments are allowed.`
+        );
+      }
+    }
+
+    return { operations, fragments };
+  }
+
+  private skipBalanced(open: string, close: string) {
+    let depth = 0;
+    do {
+      const token = this.next();
+      if (token.kind === "string") continue;
+      if (token.value === open) depth++;
+      if (token.value === close) depth--;
+    } while (depth > 0);
+  }
+
+  private directives() {
+    while (this.is("@")) {
+      this.next();
+      this.name();
+      if (this.is("(")) {
+        this.arguments();
+      }
+    }
+  }
+
+  private selectionSet(): { selections: Selection[]; end: number } {
+    this.expect("{");
+    const selections: Selection[] = [];
+    while (!this.is("}")) {
+      selections.push(this.selection());
+    }
+    const end = this.expect("}").start;
+    return { selections, end };
+  }
+
+  private selection(): Selection {
+    if (this.is("...")) {
+      this.next();
+      if (this.is("on")) {
+        this.next();
+        this.name();
+        this.directives();
+        return { kind: "inline", selections: this.selectionSet().selections };
+      }
+      if (this.peek()?.kind === "name") {
+        const name = this.name();
+        this.directives();
+        return { kind: "spread", name };
+      }
+      this.directives();
+      return { kind: "inline", selections: this.selectionSet().selections };
+    }
+
+    let name = this.name();
+    if (this.is(":")) {
+      this.next();
+      name = this.name();
+    }
+    const args = this.is("(") ? this.arguments() : {};
+    this.directives();
+    const selections = this.is("{") ? this.selectionSet().selections : [];
+    return { kind: "field", name, args, selections };
+  }
+
+  private arguments(): Record<string, ArgumentValue> {
+    const args: Record<string, ArgumentValue> = {};
+    this.expect("(");
+    while (!this.is(")")) {
+      const name = this.name();
+      this.expect(":");
+      args[name] = this.value();
+    }
+    this.expect(")");
+    return args;
+  }
+
+  private value(): ArgumentValue {
+    const token = this.peek();
+    if (token?.value === "$" && token.kind === "punct") {
+      this.next();
+      return { kind: "variable", name: this.name() };
+    }
+    if (token?.kind === "number") {
+      this.next();
+      return { kind: "int", value: Number(token.value) };
+    }
+    if (this.is("[")) {
+      this.skipBalanced("[", "]");
+      return { kind: "other" };
+    }
+    if (this.is("{")) {
+      this.skipBalanced("{", "}");
+      return { kind: "other" };
+    }
+    this.next();
+    return { kind: "other" };
+  }
+}
+
+export function parseGraphqlDocument(source: string): GraphqlDocument {
+  return new Parser(tokenize(source)).parseDocument();
+}
+
+export type QueryEstimate = {
+  // Total nodes the query can return, the figure GitHub caps at 500,000
+  nodes: number;
+  // Rate limit points: connection requests / 100, rounded up, minimum 1
+  cost: number;
+};
+
+// Estimate node count and cost from the first/last arguments of connections
+export function estimateQuery(
+  document: GraphqlDocument,
+  operation: Operation,
+  variables: Record<string, unknown>
+): QueryEstimate {
+  let nodes = 0;
+  let requests = 0;
+
+  const resolveLimit = (args: Record<string, ArgumentValue>) => {
+    for (const key of ["first", "last"]) {
+      const arg = args[key];
+      if (arg?.kind === "int") return arg.value;
+      if (arg?.kind === "variable") {
+        const value = variables[arg.name];
+        // Assume the maximum page size when a variable isn't passed (e.g. it has a default)
+        return typeof value === "number" ? value : 100;
+      }
+    }
+    return undefined;
+  };
+
+  const visit = (
+    selections: Selection[],
+    multiplier: number,
+    seenFragments: Set<string>
+  ) => {
+    for (const selection of selections) {
+      if (selection.kind === "spread") {
+        const fragment = document.fragments.get(selection.name);
+        if (!fragment) {
+          throw new Error(`Unknown fragment "${selection.name}"`);
+        }
+        if (seenFragments.has(selection.name)) {
+          throw new Error(`Fragment "${selection.name}" spreads itself`);
+        }
+        visit(fragment, multiplier, new Set(seenFragments).add(selection.name));
+      } else if (selection.kind === "inline") {
+        visit(selection.selections, multiplier, seenFragments);
+      } else {
+        const limit = resolveLimit(selection.args);
+        if (limit !== undefined && selection.selections.length > 0) {
+          requests += multiplier;
+          nodes += multiplier * limit;
+          visit(selection.selections, multiplier * limit, seenFragments);
+        } else {
+          visit(selection.selections, multiplier, seenFragments);
+        }
+      }
+    }
+  };
+
+  visit(operation.selections, 1, new Set());
+  return { nodes, cost: Math.max(1, Math.ceil(requests / 100)) };
+}
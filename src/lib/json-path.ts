@@ -0,0 +1,108 @@
+// lib/json-path.ts
+// Dot-path selection over JSON values, shared by the tools that let the model
+// pick fields out of large payloads.
+//
+// Path syntax:
+// - "a.b" reads nested keys
+// - "[]" maps over array items, e.g. "items[].owner.login"
+// - numeric segments index into arrays, e.g. "items.0.name"
+// - a key applied to an array maps over its items, so "[]" can usually be omitted
+
+type Segment = { kind: "key"; key: string } | { kind: "each" };
+
+function parsePath(path: string): Segment[] {
+  const segments: Segment[] = [];
+  for (const part of path.split(".")) {
+    const match = /^([^[\]]*)((?:\[\])*)$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid field path "${path}"`);
+    }
+    const [, key = "", wildcards = ""] = match;
+    if (key) {
+      segments.push({ kind: "key", key });
+    }
+    for (let i = 0; i < wildcards.length / 2; i++) {
+      segments.push({ kind: "each" });
+    }
+  }
+  return segments;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function select(value: unknown, segments: Segment[]): unknown {
+  const [segment, ...rest] = segments;
+  if (!segment) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    if (segment.kind === "each") {
+      return value.map((item) => select(item, rest));
+    }
+    if (/^\d+$/.test(segment.key)) {
+      return select(value[Number(segment.key)], rest);
+    }
+    return value.map((item) => select(item, segments));
+  }
+
+  if (segment.kind === "key" && isRecord(value) && segment.key in value) {
+    return select(value[segment.key], rest);
+  }
+  return undefined;
+}
+
+// Read the value at a path; "[]" segments produce arrays of values
+export function getPath(value: unknown, path: string): unknown {
+  return select(value, parsePath(path));
+}
+
+// Copy of `value` that only keeps the parts selected by `segments`,
+// preserving the surrounding structure
+function pick(value: unknown, segments: Segment[]): unknown {
+  const [segment, ...rest] = segments;
+  if (!segment) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    if (segment.kind === "key" && /^\d+$/.test(segment.key)) {
+      return pick(value[Number(segment.key)], rest);
+    }
+    const itemSegments = segment.kind === "each" ? rest : segments;
+    return value.map((item) => pick(item, itemSegments));
+  }
+
+  if (segment.kind === "key" && isRecord(value) && segment.key in value) {
+    return { [segment.key]: pick(value[segment.key], rest) };
+  }
+  return undefined;
+}
+
+function merge(target: unknown, source: unknown): unknown {
+  if (source === undefined) {
+    return target;
+  }
+  if (Array.isArray(target) && Array.isArray(source)) {
+    return source.map((item, index) => merge(target[index], item));
+  }
+  if (isRecord(target) && isRecord(source)) {
+    const result: Record<string, unknown> = { ...target };
+    for (const [key, value] of Object.entries(source)) {
+      result[key] = merge(result[key], value);
+    }
+    return result;
+  }
+  return source;
+}
+
+// Keep only the given fields, e.g. ["total_count", "items[].full_name"]
+export function projectFields(value: unknown, paths: string[]): unknown {
+  let result: unknown = undefined;
+  for (const path of paths) {
+    result = merge(result, pick(value, parsePath(path)));
+  }
+  return result;
+}
@@ -0,0 +1,85 @@
+// lib/models.ts
+// Model registry shared by the model picker and /api/chat.
+// Only models listed here can be requested; anything else is rejected by the route.
+
+export type ModelProvider = "gateway" | "openai";
+
+export type ReasoningEffort = "minimal" | "low" | "medium" | "high";
+
+export type ModelConfig = {
+  // ID sent by the client and used in analytics (gateway-style "provider/model")
+  id: string;
+  name: string;
+  // "gateway" routes through the Vercel AI Gateway, "openai" calls OpenAI directly
+  provider: ModelProvider;
+  // Model ID passed to the provider
+  providerModelId: string;
+  reasoningEffort: ReasoningEffort;
+  reasoningSummary: "auto" | "concise" | "detailed";
+  // Expensive models are only available to signed-in users
+  requiresAuth: boolean;
+  // Maximum input + output tokens per request
+  contextWindow: number;
+  // Share of the context window old tool outputs may fill before they're
+  // elided from the history (defaults to DEFAULT_HISTORY_BUDGET_RATIO)
+  historyBudgetRatio?: number;
+};
+
+export const DEFAULT_HISTORY_BUDGET_RATIO = 0.25;
+
+export const models = [
+  {
+    id: "openai/gpt-5-nano",
+    name: "GPT 5 Nano",
+    provider: "gateway",
+    providerModelId: "openai/gpt-5-nano",
+    reasoningEffort: "low",
+    reasoningSummary: "auto",
+    requiresAuth: false,
+    contextWindow: 400_000,
+  },
+  {
+    id: "openai/gpt-5-mini",
+    name: "GPT 5 Mini",
+    provider: "openai",
+    providerModelId: "gpt-5-mini",
+    reasoningEffort: "low",
+    reasoningSummary: "auto",
+    requiresAuth: false,
+    contextWindow: 400_000,
+  },
+  {
+    id: "openai/gpt-5",
+    name: "GPT 5",
+    provider: "openai",
+    providerModelId: "gpt-5",
+    reasoningEffort: "low",
+    reasoningSummary: "auto",
+    requiresAuth: true,
+    contextWindow: 400_000,
+  },
+] as const satisfies readonly ModelConfig[];
+
+export type ModelId = (typeof models)[number]["id"];
+
+export const DEFAULT_MODEL_ID: ModelId = "openai/gpt-5-mini";
+
+export function isModelId(value: unknown): value is ModelId {
+  return models.some((model) => model.id === value);
+}
+
+export function getModelConfig(id: ModelId): ModelConfig {
+  const model = models.find((model) => model.id === id);
+  if (!model) {
+    throw new Error(`Unknown model: ${id}`);
+  }
+  return model;
+}
+
+// Token budget for tool outputs kept in the history sent to the model
+export function getHistoryBudget(config: ModelConfig): number {
+  return Math.floor(
+    config.contextWindow *
+      (config.historyBudgetRatio ?? DEFAULT_HISTORY_BUDGET_RATIO)
+  );
+}
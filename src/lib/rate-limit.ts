@@ -0,0 +1,122 @@
+// lib/rate-limit.ts
+import { fetchAction } from "convex/nextjs";
+import type { FunctionReturnType } from "convex/server";
+import { checkRateLimit as checkFirewallRateLimit } from "@vercel/firewall";
+import { createHash } from "node:crypto";
+import { api } from "../../convex/_generated/api";
+import { RATE_LIMITS, type RateLimitName } from "../../convex/rateLimit";
+import { getConvexServerSecret } from "@/lib/server-secret";
+
+export type RateLimitResult = FunctionReturnType<
+  typeof api.rateLimit.consumeRateLimit
+>;
+
+// Vercel Firewall rule IDs, checked in addition to the Convex limiter when enabled
+// (see RATE_LIMITING.md)
+const FIREWALL_RATE_LIMIT_IDS: Record<RateLimitName, string> = {
+  chatAuthenticated: "chat-rate-limit-authenticated",
+  chatAnonymous: "chat-rate-limit-unauthenticated",
+};
+
+// Header holding the client IP as set by the platform's proxy. Vercel sets
+// x-real-ip and clients can't override it; when self-hosting, set
+// TRUSTED_IP_HEADER to the header your reverse proxy sets.
+const TRUSTED_IP_HEADER = (
+  process.env.TRUSTED_IP_HEADER ?? "x-real-ip"
+).toLowerCase();
+
+export function getClientIp(req: Request): string | null {
+  const value = req.headers.get(TRUSTED_IP_HEADER);
+  // Clients can prepend to x-forwarded-for; only the entry appended by the
+  // trusted proxy (the last one) can be relied on
+  const ip =
+    TRUSTED_IP_HEADER === "x-forwarded-for"
+      ? value?.split(",").pop()?.trim()
+      : value?.trim();
+  return ip || null;
+}
+
+// Identifies a signed-out caller without storing their IP. Null when the
+// trusted header is missing: callers must not fall back to a shared key, or
+// every signed-out user would share one rate limit, quota and sandbox.
+export function getClientKey(req: Request): string | null {
+  const ip = getClientIp(req);
+  if (!ip) {
+    console.error(
+      `No client IP in the ${TRUSTED_IP_HEADER} header; set TRUSTED_IP_HEADER to the header your proxy sets (see RATE_LIMITING.md)`
+    );
+    return null;
+  }
+  return createHash("sha256").update(ip).digest("hex").slice(0, 16);
+}
+
+export function getRateLimitDescription(name: RateLimitName): string {
+  return RATE_LIMITS[name].description;
+}
+
+// Standard rate limit headers for both allowed and rejected responses
+export function getRateLimitHeaders(
+  result: RateLimitResult
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(result.resetAt / 1000)),
+  };
+  if (!result.allowed) {
+    headers["Retry-After"] = String(Math.ceil(result.retryAfterMs / 1000));
+  }
+  return headers;
+}
+
+// Consume one request from the given limit, keyed by user ID when signed in
+// (resolved by Convex from the token) and by hashed client IP otherwise.
+// Returns null if Convex is unreachable so requests aren't blocked by an outage;
+// a missing server secret is a misconfiguration and throws.
+export async function checkRateLimit({
+  name,
+  req,
+  clientKey,
+  token,
+  userId,
+}: {
+  name: RateLimitName;
+  req: Request;
+  clientKey: string | null;
+  token: string | undefined;
+  userId: string | null;
+}): Promise<RateLimitResult | null> {
+  const secret = getConvexServerSecret();
+
+  if (process.env.VERCEL_FIREWALL_RATE_LIMIT === "true") {
+    const { rateLimited } = await checkFirewallRateLimit(
+      FIREWALL_RATE_LIMIT_IDS[name],
+      {
+        request: req,
+        // For unauthenticated users, Vercel will use IP address automatically
+        ...(userId ? { rateLimitKey: userId } : {}),
+      }
+    );
+    if (rateLimited) {
+      const config = RATE_LIMITS[name];
+      return {
+        allowed: false,
+        limit: config.limit,
+        remaining: 0,
+        retryAfterMs: config.windowMs,
+        resetAt: Date.now() + config.windowMs,
+      };
+    }
+  }
+
+  try {
+    return await fetchAction(
+      api.rateLimit.consumeRateLimit,
+      { secret, name, clientKey: clientKey ?? undefined },
+      { token }
+    );
+  } catch (error) {
+    console.error("Failed to check rate limit:", error);
+    return null;
+  }
+}
@@ -0,0 +1,22 @@
+// lib/request-owner.ts
+import { nanoid } from "nanoid";
+
+// Scopes per-chat server state (sandboxes, stored tool results) to one chat
+// of one user. Signed-out users are told apart by their hashed client IP
+// (see getClientKey), so a leaked chat ID alone can't reach that state.
+export function getRequestOwnerKey({
+  userId,
+  chatId,
+  clientKey,
+}: {
+  userId: string | null;
+  chatId: string | undefined;
+  clientKey: string | null;
+}): string {
+  if (!userId && !clientKey) {
+    throw new Error("Signed-out requests need a client key");
+  }
+  const owner = userId ? `user:${userId}` : `ip:${clientKey}`;
+  // Without a chat ID the state lives for this request only
+  return `${owner}:${chatId || `request-${nanoid()}`}`;
+}
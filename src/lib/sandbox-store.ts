@@ -0,0 +1,87 @@
+// lib/sandbox-store.ts
+import { fetchAction } from "convex/nextjs";
+import { api } from "../../convex/_generated/api";
+import { getConvexServerSecret } from "@/lib/server-secret";
+
+// Identifies a chat's sandbox record in Convex. Signed-in requests are
+// matched by the Convex token's user, signed-out ones by hashed client IP.
+export type SandboxOwner = {
+  chatId: string;
+  clientKey: string | null;
+  token: string | undefined;
+};
+
+export type SandboxRecord = {
+  sandboxId: string;
+  repositoryUrl: string | null;
+  expiresAt: number;
+};
+
+function getRequestArgs(owner: SandboxOwner) {
+  return {
+    secret: getConvexServerSecret(),
+    chatId: owner.chatId,
+    clientKey: owner.clientKey ?? undefined,
+  };
+}
+
+// The chat's live sandbox, or null if there is none or Convex is unavailable
+export async function loadSandboxRecord(
+  owner: SandboxOwner
+): Promise<SandboxRecord | null> {
+  try {
+    return await fetchAction(
+      api.sandbox.getSandboxForRequest,
+      getRequestArgs(owner),
+      { token: owner.token }
+    );
+  } catch (error) {
+    console.error("Failed to load sandbox:", error);
+    return null;
+  }
+}
+
+export async function saveSandboxRecord(
+  owner: SandboxOwner,
+  { sandboxId, expiresAt }: { sandboxId: string; expiresAt: number }
+): Promise<void> {
+  try {
+    await fetchAction(
+      api.sandbox.recordSandboxForRequest,
+      { ...getRequestArgs(owner), sandboxId, expiresAt },
+      { token: owner.token }
+    );
+  } catch (error) {
+    console.error("Failed to save sandbox:", error);
+  }
+}
+
+export async function saveSandboxRepository(
+  owner: SandboxOwner,
+  repositoryUrl: string
+): Promise<void> {
+  try {
+    await fetchAction(
+      api.sandbox.recordSandboxRepositoryForRequest,
+      { ...getRequestArgs(owner), repositoryUrl },
+      { token: owner.token }
+    );
+  } catch (error) {
+    console.error("Failed to save sandbox repository:", error);
+  }
+}
+
+export async function removeSandboxRecord(
+  owner: SandboxOwner,
+  sandboxId: string
+): Promise<void> {
+  try {
+    await fetchAction(
+      api.sandbox.removeSandboxForRequest,
+      { ...getRequestArgs(owner), sandboxId },
+      { token: owner.token }
+    );
+  } catch (error) {
+    console.error("Failed to remove sandbox:", error);
+  }
+}
@@ -0,0 +1,114 @@
+// lib/semver.ts
+// Semantic version parsing and ordering for release tags. Understands the tag
+// formats projects actually use: "1.2.3", "v1.2.3", monorepo tags such as
+// "pkg@1.2.3", "@scope/pkg@1.2.3" and "pkg-v1.2.3", and partial versions
+// ("5", "5.1") when used as range bounds.
+
+export type Version = {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+  // Package name from a monorepo tag, if any
+  package: string | null;
+  // How many of major.minor.patch were given ("5" -> 1, "5.1" -> 2)
+  precision: 1 | 2 | 3;
+};
+
+const VERSION_PATTERN =
+  /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+export function parseVersion(tag: string): Version | null {
+  let value = tag.trim();
+  let packageName: string | null = null;
+
+  // "pkg@1.2.3" / "@scope/pkg@1.2.3"
+  const at = value.lastIndexOf("@");
+  if (at > 0) {
+    packageName = value.slice(0, at);
+    value = value.slice(at + 1);
+  } else {
+    // "pkg-v1.2.3" / "pkg_v1.2.3" / "pkg/v1.2.3"
+    const prefixed = /^(.+?)[-_/]v(\d.*)$/.exec(value);
+    if (prefixed?.[1] && prefixed[2]) {
+      packageName = prefixed[1];
+      value = prefixed[2];
+    }
+  }
+
+  const match = VERSION_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [, major, minor, patch, prerelease] = match;
+  return {
+    major: Number(major),
+    minor: Number(minor ?? 0),
+    patch: Number(patch ?? 0),
+    prerelease: prerelease ? prerelease.split(".") : [],
+    package: packageName,
+    precision: patch !== undefined ? 3 : minor !== undefined ? 2 : 1,
+  };
+}
+
+function compareIdentifiers(a: string, b: string): number {
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+  if (aNumeric && bNumeric) return Number(a) - Number(b);
+  // Numeric identifiers sort before alphanumeric ones
+  if (aNumeric) return -1;
+  if (bNumeric) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Order by precedence (https://semver.org/#spec-item-11); build metadata is ignored
+export function compareVersions(a: Version, b: Version): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) return core;
+
+  // A prerelease sorts before its release
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const x = a.prerelease[i];
+    const y = b.prerelease[i];
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+    const order = compareIdentifiers(x, y);
+    if (order !== 0) return order;
+  }
+  return 0;
+}
+
+export function formatVersion(version: Version): string {
+  const core = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease.length > 0
+    ? `${core}-${version.prerelease.join(".")}`
+    : core;
+}
+
+// Whether `version` is after `from` (exclusive) and up to `to` (inclusive).
+// A partial upper bound covers the whole series: to "5" includes 5.9.1.
+export function isInRange(
+  version: Version,
+  from: Version | null,
+  to: Version | null
+): boolean {
+  if (from && compareVersions(version, from) <= 0) {
+    return false;
+  }
+  if (!to) {
+    return true;
+  }
+  if (to.precision === 1) {
+    return version.major <= to.major;
+  }
+  if (to.precision === 2) {
+    return (
+      version.major < to.major ||
+      (version.major === to.major && version.minor <= to.minor)
+    );
+  }
+  return compareVersions(version, to) <= 0;
+}
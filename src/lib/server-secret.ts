@@ -0,0 +1,11 @@
+// lib/server-secret.ts
+
+// Shared secret for the Convex functions only the server may call
+// (see convex/serverSecret.ts)
+export function getConvexServerSecret(): string {
+  const secret = process.env.CONVEX_SERVER_SECRET;
+  if (!secret) {
+    throw new Error("CONVEX_SERVER_SECRET is not set");
+  }
+  return secret;
+}
@@ -0,0 +1,181 @@
+// lib/stream-store.ts
+import { fetchMutation, fetchQuery } from "convex/nextjs";
+import { api } from "../../convex/_generated/api";
+
+// Batch SSE events so long generations don't issue one mutation per token
+const FLUSH_INTERVAL_MS = 250;
+// How often a resumed stream checks Convex for new chunks
+const POLL_INTERVAL_MS = 500;
+// How often a live stream is marked as alive while it produces no chunks
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Persist an SSE stream to Convex as it is produced so clients can reconnect.
+// The stream is always read to the end so the generation keeps running even
+// when the original client has disconnected.
+export async function persistStream({
+  chatId,
+  streamId,
+  stream,
+  token,
+}: {
+  chatId: string;
+  streamId: string;
+  stream: ReadableStream<string>;
+  token: string;
+}): Promise<void> {
+  let persisting = true;
+  try {
+    await fetchMutation(
+      api.streams.createStream,
+      { chatId, streamId },
+      { token }
+    );
+  } catch (error) {
+    console.error("Failed to create resumable stream:", error);
+    persisting = false;
+  }
+
+  let buffer: string[] = [];
+  let lastFlush = Date.now();
+
+  const flush = async () => {
+    if (!persisting || buffer.length === 0) {
+      buffer = [];
+      return;
+    }
+    const data = buffer.join("");
+    buffer = [];
+    try {
+      await fetchMutation(
+        api.streams.appendStreamChunks,
+        { streamId, chunks: [data] },
+        { token }
+      );
+    } catch (error) {
+      // Keep draining the stream, but stop persisting a now-incomplete replay
+      console.error("Failed to persist stream chunk:", error);
+      persisting = false;
+      await finishStream(streamId, "error", token);
+    }
+  };
+
+  // Long tool calls can go minutes without output; keep the stream from
+  // looking dead to reconnecting clients
+  const heartbeat = setInterval(async () => {
+    if (!persisting) return;
+    try {
+      await fetchMutation(api.streams.touchStream, { streamId }, { token });
+    } catch (error) {
+      console.error("Failed to touch stream:", error);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer.push(value);
+      if (Date.now() - lastFlush >= FLUSH_INTERVAL_MS) {
+        await flush();
+        lastFlush = Date.now();
+      }
+    }
+    await flush();
+    if (persisting) {
+      await finishStream(streamId, "done", token);
+    }
+  } catch (error) {
+    console.error("Failed to read stream:", error);
+    if (persisting) {
+      await finishStream(streamId, "error", token);
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function finishStream(
+  streamId: string,
+  status: "done" | "error",
+  token: string
+): Promise<void> {
+  try {
+    await fetchMutation(
+      api.streams.finishStream,
+      { streamId, status },
+      { token }
+    );
+  } catch (error) {
+    console.error("Failed to finish stream:", error);
+  }
+}
+
+// Returns the ID of the generation currently running for a chat, if any
+export async function getActiveStreamId(
+  chatId: string,
+  token: string | undefined
+): Promise<string | null> {
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const stream = await fetchQuery(
+      api.streams.getActiveStream,
+      { chatId },
+      { token }
+    );
+    return stream?.streamId ?? null;
+  } catch (error) {
+    console.error("Failed to get active stream:", error);
+    return null;
+  }
+}
+
+// Replay a persisted stream from the start and follow it until it finishes
+export function createResumedStream(
+  streamId: string,
+  token: string
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let fromSeq = 0;
+      try {
+        while (!cancelled) {
+          const result = await fetchQuery(
+            api.streams.getStreamChunks,
+            { streamId, fromSeq },
+            { token }
+          );
+          if (!result) break;
+
+          for (const chunk of result.chunks) {
+            controller.enqueue(encoder.encode(chunk));
+          }
+          fromSeq += result.chunks.length;
+
+          // A stale stream's generating instance died without finishing it
+          if (result.status !== "active" || result.stale) break;
+          await sleep(POLL_INTERVAL_MS);
+        }
+        if (!cancelled) {
+          controller.close();
+        }
+      } catch (error) {
+        console.error("Failed to resume stream:", error);
+        if (!cancelled) {
+          controller.error(error);
+        }
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+}
@@ -0,0 +1,175 @@
+// lib/tool-results.ts
+// Caps tool results at a size budget so one large payload can't fill a turn.
+// Oversized results are kept in memory under an unguessable handle, which the
+// model can read back in slices with the readToolResult tool. The memory is
+// per server instance, so a handle is only promised to work within the response
+// that produced it: the tool loop of one response runs on one instance, but the
+// next request may not. Handles show up in shared chats, so each stored result
+// is tied to the chat it was made in (see getRequestOwnerKey) and only readable
+// from there.
+import { nanoid } from "nanoid";
+
+// Maximum serialized size of a tool result returned to the model (~5K tokens)
+export const TOOL_RESULT_MAX_CHARS = 20_000;
+
+// Stored results only need to outlive the tool loop of a single response
+const STORE_TTL_MS = 30 * 60 * 1000;
+const STORE_MAX_ENTRIES = 200;
+// Total serialized size kept per instance; the oldest results are evicted first
+const STORE_MAX_CHARS = 50_000_000;
+// A single result larger than this isn't stored at all
+const STORED_RESULT_MAX_CHARS = 10_000_000;
+
+export type StoredToolResult = {
+  // Request owner key of the chat that produced the result
+  owner: string;
+  tool: string;
+  value: unknown;
+  // Serialized size, counted against STORE_MAX_CHARS
+  size: number;
+  createdAt: number;
+};
+
+const storedResults = new Map<string, StoredToolResult>();
+let storedChars = 0;
+
+function deleteStoredResult(handle: string) {
+  const result = storedResults.get(handle);
+  if (result) {
+    storedChars -= result.size;
+    storedResults.delete(handle);
+  }
+}
+
+function pruneStoredResults(now: number) {
+  for (const [handle, result] of storedResults) {
+    if (now - result.createdAt > STORE_TTL_MS) {
+      deleteStoredResult(handle);
+    }
+  }
+  // Map iteration is in insertion order, so the oldest entries go first
+  for (const handle of storedResults.keys()) {
+    if (
+      storedResults.size <= STORE_MAX_ENTRIES &&
+      storedChars <= STORE_MAX_CHARS
+    ) {
+      break;
+    }
+    deleteStoredResult(handle);
+  }
+}
+
+// Store a result for readToolResult. Returns null if it is too large to keep.
+export function storeToolResult(
+  owner: string,
+  tool: string,
+  value: unknown,
+  size = JSON.stringify(value)?.length ?? 0
+): string | null {
+  if (size > STORED_RESULT_MAX_CHARS) {
+    return null;
+  }
+  const now = Date.now();
+  const handle = `res_${nanoid(16)}`;
+  storedResults.set(handle, { owner, tool, value, size, createdAt: now });
+  storedChars += size;
+  pruneStoredResults(now);
+  return handle;
+}
+
+export function getStoredToolResult(
+  owner: string,
+  handle: string
+): StoredToolResult | undefined {
+  const result = storedResults.get(handle);
+  if (result && Date.now() - result.createdAt > STORE_TTL_MS) {
+    deleteStoredResult(handle);
+    return undefined;
+  }
+  // Another chat's handle reads as missing rather than forbidden
+  return result?.owner === owner ? result : undefined;
+}
+
+// Text form of a value for paging and grepping: strings as-is, JSON pretty-printed
+export function toResultText(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  return JSON.stringify(value, null, 2) ?? "";
+}
+
+// Keep the start and end of a long text; errors and summaries are usually at the end
+export function clipText(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+  const head = Math.floor(maxChars * 0.6);
+  const tail = maxChars - head;
+  const omitted = text.length - head - tail;
+  return `${text.slice(0, head)}\n… [${omitted} characters omitted] …\n${text.slice(-tail)}`;
+}
+
+// Leading items of an array that fit in maxChars once serialized
+function fitItems(items: unknown[], maxChars: number): unknown[] {
+  const fitted: unknown[] = [];
+  let size = 2;
+  for (const item of items) {
+    size += (JSON.stringify(item)?.length ?? 0) + 1;
+    if (size > maxChars) break;
+    fitted.push(item);
+  }
+  return fitted;
+}
+
+export type TruncatedToolResult = {
+  truncated: true;
+  // Missing when the result was too large to keep for readToolResult
+  handle?: string;
+  totalChars: number;
+  note: string;
+  // For array results: the leading items that fit
+  items?: unknown[];
+  totalItems?: number;
+  // For other results: the start of the pretty-printed JSON
+  preview?: string;
+};
+
+// Return `value` unchanged if it fits the budget, otherwise store it and
+// return a preview with a handle for readToolResult
+export function boundToolResult(
+  owner: string,
+  tool: string,
+  value: unknown,
+  maxChars = TOOL_RESULT_MAX_CHARS
+): unknown {
+  const totalChars = JSON.stringify(value)?.length ?? 0;
+  if (totalChars <= maxChars) {
+    return value;
+  }
+
+  const handle = storeToolResult(owner, tool, value, totalChars);
+  const note = handle
+    ? `The full result (${totalChars} characters) is too large to return at once. Use readToolResult with handle "${handle}" to page through it, grep it, or select fields.`
+    : `The full result (${totalChars} characters) is too large to return or keep. Narrow the request to see the rest.`;
+  // Leave room for the note and other fields of the summary
+  const previewChars = maxChars - note.length - 200;
+
+  if (Array.isArray(value)) {
+    return {
+      truncated: true,
+      ...(handle ? { handle } : {}),
+      totalChars,
+      note,
+      items: fitItems(value, previewChars),
+      totalItems: value.length,
+    } satisfies TruncatedToolResult;
+  }
+
+  return {
+    truncated: true,
+    ...(handle ? { handle } : {}),
+    totalChars,
+    note,
+    preview: toResultText(value).slice(0, previewChars),
+  } satisfies TruncatedToolResult;
+}
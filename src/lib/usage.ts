@@ -0,0 +1,99 @@
+// lib/usage.ts
+import { fetchAction } from "convex/nextjs";
+import type { FunctionReturnType } from "convex/server";
+import type { LanguageModelUsage } from "ai";
+import { getUsage } from "tokenlens";
+import { api } from "../../convex/_generated/api";
+import { USAGE_QUOTAS, type UsageTier } from "../../convex/usage";
+import { getConvexServerSecret } from "@/lib/server-secret";
+
+export type QuotaStatus = FunctionReturnType<
+  typeof api.usage.getQuotaForRequest
+>;
+
+export function getQuotaDescription(tier: UsageTier): string {
+  return USAGE_QUOTAS[tier].description;
+}
+
+// Estimated cost in USD from the tokenlens pricing catalog, if the model is listed
+export function estimateCostUsd(
+  modelId: string,
+  usage: LanguageModelUsage
+): number | undefined {
+  const cachedInputTokens = usage.cachedInputTokens ?? 0;
+  return getUsage({
+    modelId,
+    usage: {
+      // Cached tokens are included in inputTokens but billed at the cache rate
+      input: Math.max(0, (usage.inputTokens ?? 0) - cachedInputTokens),
+      output: usage.outputTokens ?? 0,
+      cacheReads: cachedInputTokens,
+    },
+  }).costUSD?.totalUSD;
+}
+
+// Check the caller's daily and monthly token quota.
+// Returns null if usage tracking is unavailable; callers must then refuse the
+// request, since usage that can't be checked can't be limited either.
+export async function checkUsageQuota({
+  clientKey,
+  token,
+}: {
+  clientKey: string | null;
+  token: string | undefined;
+}): Promise<QuotaStatus | null> {
+  const secret = getConvexServerSecret();
+  try {
+    return await fetchAction(
+      api.usage.getQuotaForRequest,
+      { secret, clientKey: clientKey ?? undefined },
+      { token }
+    );
+  } catch (error) {
+    console.error("Failed to check usage quota:", error);
+    return null;
+  }
+}
+
+// Record the token usage and estimated cost of one chat request
+// The token is passed in because this runs after the response has finished streaming
+export async function recordUsage({
+  clientKey,
+  token,
+  chatId,
+  modelId,
+  usage,
+}: {
+  clientKey: string | null;
+  token: string | undefined;
+  chatId: string | undefined;
+  modelId: string;
+  usage: LanguageModelUsage;
+}): Promise<void> {
+  const inputTokens = usage.inputTokens ?? 0;
+  const outputTokens = usage.outputTokens ?? 0;
+  const secret = getConvexServerSecret();
+
+  try {
+    await fetchAction(
+      api.usage.recordRequestUsage,
+      {
+        secret,
+        clientKey: clientKey ?? undefined,
+        chatId,
+        modelId,
+        usage: {
+          inputTokens,
+          outputTokens,
+          reasoningTokens: usage.reasoningTokens ?? 0,
+          cachedInputTokens: usage.cachedInputTokens ?? 0,
+          totalTokens: usage.totalTokens ?? inputTokens + outputTokens,
+        },
+        costUsd: estimateCostUsd(modelId, usage),
+      },
+      { token }
+    );
+  } catch (error) {
+    console.error("Failed to record usage:", error);
+  }
+}
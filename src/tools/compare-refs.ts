@@ -0,0 +1,487 @@
+import { tool } from "ai";
+import { zodSchema } from "ai";
+import { z } from "zod";
+import { countChanges, parsePatch } from "@/lib/diff";
+import { createGitHubClient, getRateLimitBudget } from "@/lib/github-client";
+import { createGlobMatcher } from "@/lib/glob";
+import {
+  TOOL_RESULT_MAX_CHARS,
+  boundToolResult,
+  clipText,
+  storeToolResult,
+} from "@/lib/tool-results";
+
+// The compare API lists at most 300 files; pull requests up to 3,000
+const COMPARE_MAX_FILES = 300;
+const PULL_FILES_PER_PAGE = 100;
+const PULL_FILES_MAX_PAGES = 30;
+const MAX_COMMITS = 50;
+const HUNK_MAX_CHARS = 3_000;
+// Leaves room for the rate limit budget next to the result
+const RESULT_MAX_CHARS = TOOL_RESULT_MAX_CHARS - 1_000;
+// Renamed and binary paths kept in the summary of a trimmed result
+const SUMMARY_MAX_PATHS = 50;
+
+export type CompareHunk = {
+  header: string;
+  additions: number;
+  deletions: number;
+  // Hunk body, one diff line per line
+  lines: string;
+};
+
+export type CompareFile = {
+  path: string;
+  previousPath?: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  binary?: boolean;
+  // Set when the file is listed without a patch (large diff or tree fallback)
+  note?: string;
+  hunks?: CompareHunk[];
+  omittedHunks?: number;
+};
+
+export type CompareRefsResult = {
+  repository: string;
+  base: string;
+  head: string;
+  pullNumber?: number;
+  status?: string;
+  aheadBy?: number;
+  behindBy?: number;
+  commits?: Array<{ sha: string; message: string; author: string | null }>;
+  summary: {
+    filesChanged: number;
+    shownFiles: number;
+    additions: number;
+    deletions: number;
+    byStatus: Record<string, number>;
+    renamed: Array<{ from: string; to: string }>;
+    binary: string[];
+    // Set when the lists above were cut to fit the result budget
+    omittedRenames?: number;
+    omittedBinary?: number;
+  };
+  files: CompareFile[];
+  note?: string;
+};
+
+type RawFile = {
+  filename: string;
+  previous_filename?: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  changes: number;
+  patch?: string;
+  // Found by comparing git trees, past the compare API's file limit
+  fromTree?: boolean;
+};
+
+function toCompareFile(
+  file: RawFile,
+  summaryOnly: boolean,
+  maxHunks: number
+): CompareFile {
+  const base: CompareFile = {
+    path: file.filename,
+    ...(file.previous_filename ? { previousPath: file.previous_filename } : {}),
+    status: file.status,
+    additions: file.additions,
+    deletions: file.deletions,
+  };
+  if (file.patch === undefined) {
+    // Binary files have no patch and no line changes; very large diffs have
+    // line counts but no patch
+    if (file.changes === 0 && file.status !== "renamed") {
+      return { ...base, binary: true };
+    }
+    if (file.changes > 0) {
+      return { ...base, note: "Diff too large to include." };
+    }
+    return base;
+  }
+  if (summaryOnly) {
+    return base;
+  }
+  const hunks = parsePatch(file.patch);
+  return {
+    ...base,
+    hunks: hunks.slice(0, maxHunks).map((hunk) => ({
+      header: hunk.header,
+      ...countChanges([hunk]),
+      lines: clipText(hunk.lines.join("\n"), HUNK_MAX_CHARS),
+    })),
+    ...(hunks.length > maxHunks
+      ? { omittedHunks: hunks.length - maxHunks }
+      : {}),
+  };
+}
+
+function limitHunks(file: CompareFile, limit: number): CompareFile {
+  const hunks = file.hunks ?? [];
+  if (hunks.length <= limit) {
+    return file;
+  }
+  return {
+    ...file,
+    hunks: limit > 0 ? hunks.slice(0, limit) : undefined,
+    omittedHunks: (file.omittedHunks ?? 0) + hunks.length - limit,
+  };
+}
+
+// Drop hunks, then trailing files, until the result fits the tool result
+// budget. Trimming here rather than in boundToolResult keeps the structured
+// files and summary, so the diff view can still render the result.
+function fitCompareResult(
+  output: CompareRefsResult,
+  resultOwner: string
+): CompareRefsResult {
+  const sizeOf = (value: unknown) => JSON.stringify(value)?.length ?? 0;
+  if (sizeOf(output) <= RESULT_MAX_CHARS) {
+    return output;
+  }
+
+  const handle = storeToolResult(resultOwner, "compareRefs", output);
+  const { renamed, binary } = output.summary;
+  const summary: CompareRefsResult["summary"] = {
+    ...output.summary,
+    renamed: renamed.slice(0, SUMMARY_MAX_PATHS),
+    binary: binary.slice(0, SUMMARY_MAX_PATHS),
+    ...(renamed.length > SUMMARY_MAX_PATHS
+      ? { omittedRenames: renamed.length - SUMMARY_MAX_PATHS }
+      : {}),
+    ...(binary.length > SUMMARY_MAX_PATHS
+      ? { omittedBinary: binary.length - SUMMARY_MAX_PATHS }
+      : {}),
+  };
+  const fullResultNote = handle
+    ? `Use readToolResult with handle "${handle}" to read the full diff.`
+    : "The full diff is too large to keep; narrow it with include or exclude.";
+  // Everything but the files, with room for the trimming note
+  const baseSize =
+    sizeOf({ ...output, summary, files: [] }) + fullResultNote.length + 200;
+  const filesSize = (files: CompareFile[]) =>
+    files.reduce((total, file) => total + sizeOf(file) + 1, 0);
+
+  // Start from every file without hunks; if even that is too large, keep
+  // the leading files that fit
+  const stripped = output.files.map((file) => limitHunks(file, 0));
+  let size = baseSize + filesSize(stripped);
+  let files: CompareFile[];
+  let trimmed: string;
+  if (size > RESULT_MAX_CHARS) {
+    size = baseSize;
+    let shown = 0;
+    for (const file of stripped) {
+      size += sizeOf(file) + 1;
+      if (size > RESULT_MAX_CHARS) break;
+      shown++;
+    }
+    files = stripped.slice(0, shown);
+    trimmed = `Too large to return in full: hunks were left out and only the first ${shown} of ${output.files.length} files are listed.`;
+  } else {
+    // Add hunks back in file order while they fit
+    let full = false;
+    let omitted = 0;
+    files = output.files.map((file) => {
+      const hunks = file.hunks ?? [];
+      let kept = 0;
+      for (const hunk of hunks) {
+        const extra = sizeOf(hunk) + 1;
+        if (full || size + extra > RESULT_MAX_CHARS) {
+          full = true;
+          break;
+        }
+        size += extra;
+        kept++;
+      }
+      omitted += hunks.length - kept;
+      return limitHunks(file, kept);
+    });
+    trimmed = `Too large to return in full: ${omitted} hunks were left out (see omittedHunks).`;
+  }
+
+  return {
+    ...output,
+    summary: { ...summary, shownFiles: files.length },
+    files,
+    note: [output.note, trimmed, fullResultNote].filter(Boolean).join(" "),
+  };
+}
+
+// Helper function to create the compare/diff tool with token
+export function createCompareRefsTool(
+  githubToken: string | null,
+  resultOwner: string
+) {
+  const octokit = createGitHubClient(githubToken);
+
+  return tool({
+    description: `Compare two refs (branches, tags or commits) or show a pull request's changes as structured diffs. Use this instead of githubApi /compare or /pulls/{n}/files, whose raw patches are huge.
+
+    Pass base and head to compare refs (three-dot comparison: changes on head since it diverged from base), or pullNumber for a pull request.
+
+    Returns a summary (files changed, additions, deletions, counts by status, renames, binary files), the commits for ref comparisons, and per-file hunks with their added/deleted line counts. Narrow large diffs with include/exclude globs (e.g. include=["src/**"], exclude=["*.lock", "dist/"]) or summaryOnly=true for file stats without hunks.
+
+    Pull request files are paged automatically (up to 3,000). GitHub's compare API stops at 300 files; beyond that, the remaining files are listed from the git trees, without hunks.`,
+    inputSchema: zodSchema(
+      z.object({
+        owner: z.string().describe("Repository owner"),
+        repo: z.string().describe("Repository name"),
+        base: z
+          .string()
+          .optional()
+          .describe("Base ref for a comparison (e.g. 'v1.2.0', 'main')"),
+        head: z
+          .string()
+          .optional()
+          .describe(
+            "Head ref for a comparison (e.g. 'v1.3.0', 'feature-branch')"
+          ),
+        pullNumber: z
+          .number()
+          .int()
+          .optional()
+          .describe("Pull request number (instead of base/head)"),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe("Glob patterns; only matching files are returned"),
+        exclude: z
+          .array(z.string())
+          .optional()
+          .describe("Glob patterns for files to leave out"),
+        summaryOnly: z
+          .boolean()
+          .default(false)
+          .describe("Return file stats without hunks"),
+        maxHunksPerFile: z
+          .number()
+          .int()
+          .min(1)
+          .max(50)
+          .default(10)
+          .describe("Hunks returned per file"),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'comparing the last two releases', 'reviewing the pull request diff'). The user is reading this to understand why the tool is being called."
+          ),
+      })
+    ),
+    execute: async ({
+      owner,
+      repo,
+      base,
+      head,
+      pullNumber,
+      include = [],
+      exclude = [],
+      summaryOnly,
+      maxHunksPerFile,
+    }: {
+      owner: string;
+      repo: string;
+      base?: string;
+      head?: string;
+      pullNumber?: number;
+      include?: string[];
+      exclude?: string[];
+      summaryOnly: boolean;
+      maxHunksPerFile: number;
+      reason?: string;
+    }) => {
+      if (pullNumber === undefined && (!base || !head)) {
+        throw new Error("Pass either pullNumber, or both base and head.");
+      }
+
+      let matches: (path: string) => boolean;
+      try {
+        const isIncluded =
+          include.length > 0 ? createGlobMatcher(include) : () => true;
+        const isExcluded = createGlobMatcher(exclude);
+        matches = (path) => isIncluded(path) && !isExcluded(path);
+      } catch (error: unknown) {
+        throw new Error(
+          error instanceof Error ? error.message : "Invalid glob pattern"
+        );
+      }
+
+      try {
+        let files: RawFile[] = [];
+        let result: Omit<CompareRefsResult, "summary" | "files">;
+        let note: string | undefined;
+
+        if (pullNumber !== undefined) {
+          const { data: pull } = await octokit.rest.pulls.get({
+            owner,
+            repo,
+            pull_number: pullNumber,
+          });
+          for (let page = 1; page <= PULL_FILES_MAX_PAGES; page++) {
+            const { data } = await octokit.rest.pulls.listFiles({
+              owner,
+              repo,
+              pull_number: pullNumber,
+              per_page: PULL_FILES_PER_PAGE,
+              page,
+            });
+            files.push(...(data as RawFile[]));
+            if (data.length < PULL_FILES_PER_PAGE) break;
+          }
+          result = {
+            repository: `${owner}/${repo}`,
+            base: pull.base.ref,
+            head: pull.head.ref,
+            pullNumber,
+          };
+        } else {
+          const { data } = await octokit.rest.repos.compareCommitsWithBasehead({
+            owner,
+            repo,
+            basehead: `${base}...${head}`,
+          });
+          files = (data.files ?? []) as RawFile[];
+
+          // The file list stops at 300; list the rest from the trees
+          if (files.length >= COMPARE_MAX_FILES) {
+            const listed = new Set(files.map((file) => file.filename));
+            const getBlobs = async (treeSha: string) => {
+              const { data: tree } = await octokit.rest.git.getTree({
+                owner,
+                repo,
+                tree_sha: treeSha,
+                recursive: "1",
+              });
+              return {
+                truncated: tree.truncated,
+                blobs: new Map(
+                  tree.tree
+                    .filter((entry) => entry.type === "blob" && entry.path)
+                    .map((entry) => [entry.path as string, entry.sha ?? ""])
+                ),
+              };
+            };
+            const [before, after] = await Promise.all([
+              getBlobs(data.merge_base_commit.commit.tree.sha),
+              getBlobs(head as string),
+            ]);
+            for (const [path, sha] of after.blobs) {
+              const previous = before.blobs.get(path);
+              if (previous === sha || listed.has(path)) continue;
+              files.push({
+                filename: path,
+                status: previous === undefined ? "added" : "modified",
+                additions: 0,
+                deletions: 0,
+                changes: 0,
+                fromTree: true,
+              });
+            }
+            for (const path of before.blobs.keys()) {
+              if (after.blobs.has(path) || listed.has(path)) continue;
+              files.push({
+                filename: path,
+                status: "removed",
+                additions: 0,
+                deletions: 0,
+                changes: 0,
+                fromTree: true,
+              });
+            }
+            note = `GitHub's compare API lists at most ${COMPARE_MAX_FILES} files. The remaining files were found by comparing the git trees and have no line counts or hunks${before.truncated || after.truncated ? "; the trees were truncated, so the list may be incomplete" : ""}. Use include globs to narrow the comparison.`;
+          }
+
+          result = {
+            repository: `${owner}/${repo}`,
+            base: base as string,
+            head: head as string,
+            status: data.status,
+            aheadBy: data.ahead_by,
+            behindBy: data.behind_by,
+            commits: data.commits.slice(-MAX_COMMITS).map((commit) => ({
+              sha: commit.sha.slice(0, 7),
+              message: commit.commit.message.split("\n")[0] ?? "",
+              author:
+                commit.author?.login ?? commit.commit.author?.name ?? null,
+            })),
+          };
+        }
+
+        const byStatus: Record<string, number> = {};
+        let additions = 0;
+        let deletions = 0;
+        for (const file of files) {
+          byStatus[file.status] = (byStatus[file.status] ?? 0) + 1;
+          additions += file.additions;
+          deletions += file.deletions;
+        }
+
+        const selected = files.filter(
+          (file) =>
+            matches(file.filename) ||
+            (file.previous_filename !== undefined &&
+              matches(file.previous_filename))
+        );
+        const compareFiles = selected.map((file) =>
+          file.fromTree
+            ? {
+                path: file.filename,
+                status: file.status,
+                additions: 0,
+                deletions: 0,
+                note: "Listed from the git trees; no diff available.",
+              }
+            : toCompareFile(file, summaryOnly, maxHunksPerFile)
+        );
+
+        const output: CompareRefsResult = {
+          ...result,
+          summary: {
+            filesChanged: files.length,
+            shownFiles: compareFiles.length,
+            additions,
+            deletions,
+            byStatus,
+            renamed: files
+              .filter((file) => file.status === "renamed")
+              .map((file) => ({
+                from: file.previous_filename ?? "",
+                to: file.filename,
+              })),
+            binary: compareFiles
+              .filter((file) => file.binary)
+              .map((file) => file.path),
+          },
+          files: compareFiles,
+          ...(note ? { note } : {}),
+        };
+
+        return {
+          ...(boundToolResult(
+            resultOwner,
+            "compareRefs",
+            fitCompareResult(output, resultOwner)
+          ) as Record<string, unknown>),
+          rateLimit: getRateLimitBudget(githubToken),
+        };
+      } catch (error: unknown) {
+        if (typeof error === "object" && error !== null && "status" in error) {
+          const status = (error as { status: unknown }).status;
+          if (status === 404) {
+            throw new Error(
+              `Not found: check that ${owner}/${repo} exists, is accessible and has ${pullNumber !== undefined ? `pull request #${pullNumber}` : `refs "${base}" and "${head}"`}.`
+            );
+          }
+        }
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`Failed to compare: ${message}`);
+      }
+    },
+  });
+}
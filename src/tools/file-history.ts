@@ -0,0 +1,357 @@
+import { tool } from "ai";
+import { zodSchema } from "ai";
+import { z } from "zod";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import {
+  formatHunk,
+  hunkTouchesRange,
+  mapRangeToOld,
+  parsePatch,
+} from "@/lib/diff";
+import { createGitHubClient, getRateLimitBudget } from "@/lib/github-client";
+import { boundToolResult, clipText } from "@/lib/tool-results";
+
+// Commits whose diffs are inspected per call when following a line range
+const MAX_SCANNED_COMMITS = 60;
+const COMMIT_CONCURRENCY = 4;
+const MAX_HUNKS_PER_COMMIT = 3;
+const HUNK_MAX_CHARS = 2_000;
+const MAX_BLAME_RANGES = 40;
+
+const BLAME_QUERY = `
+  query ($owner: String!, $name: String!, $expression: String!, $path: String!) {
+    repository(owner: $owner, name: $name) {
+      object(expression: $expression) {
+        ... on Commit {
+          blame(path: $path) {
+            ranges {
+              startingLine
+              endingLine
+              age
+              commit {
+                abbreviatedOid
+                messageHeadline
+                committedDate
+                url
+                author { name user { login } }
+                associatedPullRequests(first: 1) { nodes { number title } }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+type BlameRange = {
+  startingLine: number;
+  endingLine: number;
+  age: number;
+  commit: {
+    abbreviatedOid: string;
+    messageHeadline: string;
+    committedDate: string;
+    url: string;
+    author: { name: string | null; user: { login: string } | null } | null;
+    associatedPullRequests: {
+      nodes: Array<{ number: number; title: string }>;
+    };
+  };
+};
+
+type BlameResponse = {
+  repository: {
+    object: { blame?: { ranges: BlameRange[] } } | null;
+  } | null;
+};
+
+// Helper function to create the file history and blame tool with token
+export function createFileHistoryTool(
+  githubToken: string | null,
+  resultOwner: string
+) {
+  const octokit = createGitHubClient(githubToken);
+
+  return tool({
+    description: `Trace how a file, or a range of lines in it, changed over time. Use this for "when and why did this change?" questions instead of stitching together /commits?path= and per-commit diffs.
+
+    Returns the commits that touched the file (newest first) with author, date, message, the pull requests they came from and the diff hunks of each commit. With startLine/endLine, only commits whose changes touch those lines are returned, with just the hunks that touched them; the range is followed back through earlier versions as lines move. History stops at the commit that added the lines or renamed the file (the result says which, with the old path to continue from).
+
+    Set blame=true (requires sign-in) to also get blame ranges: for each block of lines, the commit and pull request that last changed it.`,
+    inputSchema: zodSchema(
+      z.object({
+        owner: z.string().describe("Repository owner"),
+        repo: z.string().describe("Repository name"),
+        path: z.string().describe("File path in the repository"),
+        ref: z
+          .string()
+          .optional()
+          .describe(
+            "Branch, tag or commit SHA to start from. Defaults to the default branch."
+          ),
+        startLine: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("First line of the range to trace (in the ref's version)"),
+        endLine: z
+          .number()
+          .int()
+          .min(1)
+          .optional()
+          .describe("Last line of the range. Defaults to startLine."),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(30)
+          .default(10)
+          .describe("Maximum number of commits to return"),
+        blame: z
+          .boolean()
+          .default(false)
+          .describe("Include GraphQL blame ranges for the file or line range"),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'tracing changes to the auth handler'). The user is reading this to understand why the tool is being called."
+          ),
+      })
+    ),
+    execute: async ({
+      owner,
+      repo,
+      path,
+      ref,
+      startLine,
+      endLine,
+      limit,
+      blame,
+    }: {
+      owner: string;
+      repo: string;
+      path: string;
+      ref?: string;
+      startLine?: number;
+      endLine?: number;
+      limit: number;
+      blame: boolean;
+      reason?: string;
+    }) => {
+      if (endLine !== undefined && startLine === undefined) {
+        throw new Error("endLine requires startLine.");
+      }
+      if (blame && !githubToken) {
+        throw new Error(
+          "Blame uses the GitHub GraphQL API, which requires authentication. Please use the 'Sign in with GitHub' button in the navbar to sign in, or call again without blame."
+        );
+      }
+      const filePath = path.replace(/^\/+/, "");
+      const requestedRange =
+        startLine !== undefined
+          ? { start: startLine, end: Math.max(startLine, endLine ?? startLine) }
+          : null;
+
+      try {
+        const { data: listed } = await octokit.rest.repos.listCommits({
+          owner,
+          repo,
+          path: filePath,
+          ...(ref ? { sha: ref } : {}),
+          per_page: requestedRange ? MAX_SCANNED_COMMITS : limit,
+        });
+
+        const commits = [];
+        let range = requestedRange;
+        let stoppedAt: string | null = null;
+        let renamedFrom: string | null = null;
+        // Commit diffs are fetched a batch at a time, and only until the scan
+        // has enough commits or reaches where the file or range began
+        for (
+          let start = 0;
+          start < listed.length && !stoppedAt && commits.length < limit;
+          start += COMMIT_CONCURRENCY
+        ) {
+          const details = await mapWithConcurrency(
+            listed.slice(start, start + COMMIT_CONCURRENCY),
+            COMMIT_CONCURRENCY,
+            async (commit) =>
+              (
+                await octokit.rest.repos.getCommit({
+                  owner,
+                  repo,
+                  ref: commit.sha,
+                })
+              ).data
+          );
+
+          for (const commit of details) {
+            if (commits.length >= limit) break;
+            const file = commit.files?.find(
+              (item) => item.filename === filePath
+            );
+            if (!file) continue;
+
+            const hunks = file.patch ? parsePatch(file.patch) : [];
+            const current = range;
+            const touching = current
+              ? hunks.filter((hunk) =>
+                  hunkTouchesRange(hunk, current.start, current.end)
+                )
+              : hunks;
+            const include =
+              !range || touching.length > 0 || file.status === "added";
+
+            if (include) {
+              commits.push({
+                sha: commit.sha,
+                message: commit.commit.message,
+                author:
+                  commit.author?.login ?? commit.commit.author?.name ?? null,
+                date: commit.commit.author?.date ?? null,
+                url: commit.html_url,
+                fileStatus: file.status,
+                ...(range ? { lines: `${range.start}-${range.end}` } : {}),
+                hunks: file.patch
+                  ? touching
+                      .slice(0, MAX_HUNKS_PER_COMMIT)
+                      .map((hunk) => clipText(formatHunk(hunk), HUNK_MAX_CHARS))
+                  : [],
+                ...(!file.patch && file.status !== "removed"
+                  ? { note: "No patch available (binary or very large diff)." }
+                  : {}),
+                ...(touching.length > MAX_HUNKS_PER_COMMIT
+                  ? { omittedHunks: touching.length - MAX_HUNKS_PER_COMMIT }
+                  : {}),
+              });
+            }
+
+            if (file.status === "renamed") {
+              renamedFrom = file.previous_filename ?? null;
+              stoppedAt = commit.sha;
+              break;
+            }
+            if (file.status === "added") {
+              stoppedAt = commit.sha;
+              break;
+            }
+            if (range) {
+              range = mapRangeToOld(hunks, range.start, range.end);
+              if (!range) {
+                // This commit added every line of the range
+                stoppedAt = commit.sha;
+                break;
+              }
+            }
+          }
+        }
+
+        // Pull requests each commit came in through
+        const withPullRequests = await mapWithConcurrency(
+          commits,
+          COMMIT_CONCURRENCY,
+          async (commit) => {
+            try {
+              const { data } =
+                await octokit.rest.repos.listPullRequestsAssociatedWithCommit({
+                  owner,
+                  repo,
+                  commit_sha: commit.sha,
+                });
+              return {
+                ...commit,
+                sha: commit.sha.slice(0, 7),
+                pullRequests: data.map((pull) => ({
+                  number: pull.number,
+                  title: pull.title,
+                  url: pull.html_url,
+                  mergedAt: pull.merged_at,
+                })),
+              };
+            } catch {
+              return {
+                ...commit,
+                sha: commit.sha.slice(0, 7),
+                pullRequests: [],
+              };
+            }
+          }
+        );
+
+        let blameRanges: unknown[] | undefined;
+        if (blame) {
+          const response = await octokit.graphql<BlameResponse>(BLAME_QUERY, {
+            owner,
+            name: repo,
+            expression: ref ?? "HEAD",
+            path: filePath,
+          });
+          const ranges = response.repository?.object?.blame?.ranges ?? [];
+          blameRanges = ranges
+            .filter(
+              (blameRange) =>
+                !requestedRange ||
+                (blameRange.endingLine >= requestedRange.start &&
+                  blameRange.startingLine <= requestedRange.end)
+            )
+            .slice(0, MAX_BLAME_RANGES)
+            .map((blameRange) => ({
+              lines: `${blameRange.startingLine}-${blameRange.endingLine}`,
+              // 1 (most recent) to 10 (oldest), relative to the file's history
+              age: blameRange.age,
+              commit: blameRange.commit.abbreviatedOid,
+              message: blameRange.commit.messageHeadline,
+              author:
+                blameRange.commit.author?.user?.login ??
+                blameRange.commit.author?.name ??
+                null,
+              date: blameRange.commit.committedDate,
+              url: blameRange.commit.url,
+              pullRequest:
+                blameRange.commit.associatedPullRequests.nodes[0] ?? null,
+            }));
+        }
+
+        const scannedAll =
+          listed.length < (requestedRange ? MAX_SCANNED_COMMITS : limit);
+        return boundToolResult(resultOwner, "fileHistory", {
+          repository: `${owner}/${repo}`,
+          path: filePath,
+          ref: ref ?? null,
+          ...(requestedRange
+            ? { lines: `${requestedRange.start}-${requestedRange.end}` }
+            : {}),
+          commits: withPullRequests,
+          ...(stoppedAt
+            ? {
+                historyStart: renamedFrom
+                  ? `Renamed from ${renamedFrom} in ${stoppedAt.slice(0, 7)}. Call again with path="${renamedFrom}" and ref="${stoppedAt}^" for older history.`
+                  : `The ${requestedRange ? "lines were" : "file was"} added in ${stoppedAt.slice(0, 7)}.`,
+              }
+            : !scannedAll && commits.length < limit
+              ? {
+                  note: `Only the ${listed.length} most recent commits to the file were scanned. Call again with ref set to an older commit to look further back.`,
+                }
+              : {}),
+          ...(blameRanges ? { blame: blameRanges } : {}),
+          rateLimit: getRateLimitBudget(githubToken),
+        });
+      } catch (error: unknown) {
+        if (typeof error === "object" && error !== null && "status" in error) {
+          const status = (error as { status: unknown }).status;
+          if (status === 404 || status === 422) {
+            throw new Error(
+              `Not found: check that ${owner}/${repo} exists, is accessible and has ref "${ref ?? "default branch"}".`
+            );
+          }
+        }
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`Failed to get file history: ${message}`);
+      }
+    },
+  });
+}
@@ -0,0 +1,232 @@
+import { tool } from "ai";
+import { zodSchema } from "ai";
+import { z } from "zod";
+import { summarizeActionsLog } from "@/lib/actions-log";
+import { createGitHubClient, getRateLimitBudget } from "@/lib/github-client";
+import { boundToolResult } from "@/lib/tool-results";
+
+// Failed jobs diagnosed per call when given a whole run
+const MAX_JOBS = 3;
+
+const FAILED_CONCLUSIONS = new Set([
+  "failure",
+  "timed_out",
+  "cancelled",
+  "startup_failure",
+]);
+
+type Job = {
+  id: number;
+  run_id: number;
+  name: string;
+  html_url: string | null;
+  head_sha: string;
+  conclusion: string | null;
+  workflow_name?: string | null;
+  steps?: Array<{ name: string; number: number; conclusion: string | null }>;
+};
+
+function getStatus(error: unknown): unknown {
+  return typeof error === "object" && error !== null && "status" in error
+    ? (error as { status: unknown }).status
+    : undefined;
+}
+
+// Helper function to create the GitHub Actions failure diagnosis tool with token
+export function createGitHubActionsFailureTool(
+  githubToken: string | null,
+  resultOwner: string
+) {
+  const octokit = createGitHubClient(githubToken);
+
+  return tool({
+    description: `Explain why a GitHub Actions job failed by reading its log. Requires the user to be signed in with GitHub.
+
+    Pass a repository and one of:
+    - jobId: a workflow job ID
+    - checkRunId: a check run ID from githubPrStatus or the check-runs API (for Actions, the check run ID is the job ID)
+    - runId: a workflow run ID; its failed jobs (up to ${MAX_JOBS}) are diagnosed
+
+    For each failed job it returns the workflow name and file path, the failing step, the ##[error] lines, test failure blocks found in the log (Jest, Vitest, pytest, Go, Mocha, RSpec, TAP, cargo) and the last lines of output before the first error. Increase tailLines to see more context.`,
+    inputSchema: zodSchema(
+      z.object({
+        owner: z.string().describe("Repository owner"),
+        repo: z.string().describe("Repository name"),
+        jobId: z.number().int().optional().describe("Workflow job ID"),
+        checkRunId: z
+          .number()
+          .int()
+          .optional()
+          .describe("Check run ID of an Actions job"),
+        runId: z.number().int().optional().describe("Workflow run ID"),
+        tailLines: z
+          .number()
+          .int()
+          .min(10)
+          .max(500)
+          .default(60)
+          .describe("Lines of log output to return before the first error"),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'reading the failing test job log'). The user is reading this to understand why the tool is being called."
+          ),
+      })
+    ),
+    execute: async ({
+      owner,
+      repo,
+      jobId,
+      checkRunId,
+      runId,
+      tailLines,
+    }: {
+      owner: string;
+      repo: string;
+      jobId?: number;
+      checkRunId?: number;
+      runId?: number;
+      tailLines: number;
+      reason?: string;
+    }) => {
+      if (!githubToken) {
+        throw new Error(
+          "Reading GitHub Actions logs requires authentication. Please use the 'Sign in with GitHub' button in the navbar to sign in."
+        );
+      }
+
+      const singleJobId = jobId ?? checkRunId;
+      if (singleJobId === undefined && runId === undefined) {
+        throw new Error("Pass one of jobId, checkRunId or runId.");
+      }
+
+      try {
+        let jobs: Job[];
+        let skippedJobs = 0;
+        if (singleJobId !== undefined) {
+          try {
+            const { data } = await octokit.rest.actions.getJobForWorkflowRun({
+              owner,
+              repo,
+              job_id: singleJobId,
+            });
+            jobs = [data as Job];
+          } catch (error: unknown) {
+            if (getStatus(error) === 404 && checkRunId !== undefined) {
+              throw new Error(
+                `Check run ${checkRunId} isn't a GitHub Actions job, so it has no log here. Use its details URL or annotations instead.`
+              );
+            }
+            throw error;
+          }
+        } else {
+          const { data } = await octokit.rest.actions.listJobsForWorkflowRun({
+            owner,
+            repo,
+            run_id: runId as number,
+            filter: "latest",
+            per_page: 100,
+          });
+          const failed = (data.jobs as Job[]).filter((job) =>
+            FAILED_CONCLUSIONS.has(job.conclusion ?? "")
+          );
+          if (failed.length === 0) {
+            return {
+              runId,
+              jobs: [],
+              note: "No failed jobs in this run.",
+              rateLimit: getRateLimitBudget(githubToken),
+            };
+          }
+          jobs = failed.slice(0, MAX_JOBS);
+          skippedJobs = failed.length - jobs.length;
+        }
+
+        // Jobs of one run share the workflow file
+        const workflowPaths = new Map<number, string | null>();
+        const getWorkflowPath = async (id: number) => {
+          if (!workflowPaths.has(id)) {
+            const { data } = await octokit.rest.actions.getWorkflowRun({
+              owner,
+              repo,
+              run_id: id,
+            });
+            workflowPaths.set(id, data.path ?? null);
+          }
+          return workflowPaths.get(id) ?? null;
+        };
+
+        const diagnoses = [];
+        for (const job of jobs) {
+          const failedStep =
+            job.steps?.find((step) =>
+              FAILED_CONCLUSIONS.has(step.conclusion ?? "")
+            ) ?? null;
+          const base = {
+            jobId: job.id,
+            jobName: job.name,
+            url: job.html_url,
+            runId: job.run_id,
+            workflowName: job.workflow_name ?? null,
+            workflowPath: await getWorkflowPath(job.run_id),
+            headSha: job.head_sha,
+            conclusion: job.conclusion,
+            failedStep: failedStep
+              ? { number: failedStep.number, name: failedStep.name }
+              : null,
+          };
+
+          let log: string;
+          try {
+            // Redirects to a short-lived URL serving the plain-text log
+            const response =
+              await octokit.rest.actions.downloadJobLogsForWorkflowRun({
+                owner,
+                repo,
+                job_id: job.id,
+              });
+            log = String(response.data);
+          } catch (error: unknown) {
+            const status = getStatus(error);
+            diagnoses.push({
+              ...base,
+              error:
+                status === 410 || status === 404
+                  ? "The log is no longer available (logs expire after the repository's retention period)."
+                  : `Failed to download the log: ${error instanceof Error ? error.message : "Unknown error"}`,
+            });
+            continue;
+          }
+
+          diagnoses.push({ ...base, ...summarizeActionsLog(log, tailLines) });
+        }
+
+        return boundToolResult(resultOwner, "githubActionsFailure", {
+          jobs: diagnoses,
+          ...(skippedJobs > 0
+            ? {
+                note: `${skippedJobs} more failed job(s) in this run were not diagnosed. Pass their jobId to see them.`,
+              }
+            : {}),
+          rateLimit: getRateLimitBudget(githubToken),
+        });
+      } catch (error: unknown) {
+        const status = getStatus(error);
+        if (status === 401) {
+          throw new Error(
+            "GitHub authentication failed. Please sign in with GitHub again."
+          );
+        }
+        if (status === 404) {
+          throw new Error(
+            `Not found: check that ${owner}/${repo} exists, you have access to it and the ID is correct.`
+          );
+        }
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`Failed to diagnose the Actions failure: ${message}`);
+      }
+    },
+  });
+}
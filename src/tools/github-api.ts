@@ -1,15 +1,24 @@
 import { tool } from "ai";
 import { zodSchema } from "ai";
 import { z } from "zod";
-import { Octokit } from "@octokit/rest";
+import { createGitHubClient, getRateLimitBudget } from "@/lib/github-client";
+import { boundToolResult } from "@/lib/tool-results";
+import { normalizeGitHubContent } from "@/lib/github-content";
+import { decodeCursor, paginateGitHub } from "@/lib/github-pagination";
+import {
+  normalizeFields,
+  projectGitHubItem,
+  projectGitHubResponse,
+} from "@/lib/github-projection";
 
 // Helper function to create a generic GitHub API proxy tool with token
-export function createGitHubApiProxyTool(githubToken: string | null) {
+export function createGitHubApiProxyTool(
+  githubToken: string | null,
+  resultOwner: string
+) {
   // For public endpoints, we can use unauthenticated requests, but authenticated requests have higher rate limits
   // If no token is provided, we'll still allow requests but with lower rate limits
-  const octokit = githubToken
-    ? new Octokit({ auth: githubToken })
-    : new Octokit();
+  const octokit = createGitHubClient(githubToken);
 
   return tool({
     description: `Make GET requests to the GitHub REST API. This tool allows you to access any GitHub API endpoint that supports GET requests.
@@ -17,7 +26,7 @@ export function createGitHubApiProxyTool(githubToken: string | null) {
     Many endpoints work without authentication (public repositories, search endpoints, etc.), but authenticated requests have higher rate limits. Some endpoints require authentication (e.g., /user, /user/repos).
     
     CRITICAL: When exploring unfamiliar repositories or libraries, ALWAYS read documentation files first:
-    - Read README.md: endpoint="/repos/{owner}/{repo}/contents/README.md" - decode base64 content to read
+    - Read README.md: endpoint="/repos/{owner}/{repo}/contents/README.md" - returned as decoded text with line numbers
     - List docs directory: endpoint="/repos/{owner}/{repo}/contents/docs" to find documentation files
     - Read documentation files: endpoint="/repos/{owner}/{repo}/contents/{path}" for any .md files
     - Documentation often explains features, APIs, and usage better than code search alone
@@ -25,7 +34,7 @@ export function createGitHubApiProxyTool(githubToken: string | null) {
     Examples:
     - Get authenticated user (requires auth): endpoint="/user"
     - Get repository (public, no auth needed): endpoint="/repos/{owner}/{repo}", params={owner: "octocat", repo: "Hello-World"}
-    - Read README.md (public repos, no auth needed): endpoint="/repos/{owner}/{repo}/contents/README.md", params={owner: "octocat", repo: "Hello-World"} - decode base64 content
+    - Read README.md (public repos, no auth needed): endpoint="/repos/{owner}/{repo}/contents/README.md", params={owner: "octocat", repo: "Hello-World"}
     - Get pull requests (public repos, no auth needed): endpoint="/repos/{owner}/{repo}/pulls", params={owner: "octocat", repo: "Hello-World", state: "open"}
     - Get issues (public repos, no auth needed): endpoint="/repos/{owner}/{repo}/issues", params={owner: "octocat", repo: "Hello-World"}
     - Get repository contents (public repos, no auth needed): endpoint="/repos/{owner}/{repo}/contents/{path}", params={owner: "octocat", repo: "Hello-World", path: "README.md"}
@@ -33,6 +42,16 @@ export function createGitHubApiProxyTool(githubToken: string | null) {
     - Search code (public, no auth needed): endpoint="/search/code", params={q: "function-name repo:owner/repo"}
     - Search markdown files: endpoint="/search/code", params={q: "extension:md repo:owner/repo search-terms"}
     
+    File contents (contents, readme and git blob endpoints) are returned already decoded as UTF-8 text with line numbers, plus path, sha, size and language. Binary files are replaced by metadata, and directory listings are compacted to name/type/size.
+    
+    Pagination: list endpoints return one page (30 items by default). To get more, pass paginate={maxPages, maxItems} - the tool follows the Link header, unwraps search "items" (and lists like workflow_runs or check_runs) and returns the concatenated items under "data" with a "pagination" object: pages fetched, totalCount when GitHub reports one, "truncated" and "nextCursor". If truncated is true you haven't seen everything; call again with cursor=nextCursor (same endpoint) to continue. Use per_page=100 in params to fetch fewer pages.
+    
+    Field projection: responses are trimmed before they are returned. Repositories, issues, pull requests and check runs are reduced to their commonly used fields, and other responses drop the *_url API link fields (html_url and download URLs are kept). Pass fields=[...] with dot-paths to choose exactly what comes back, e.g. fields=["items[].full_name", "items[].stargazers_count"] for a repository search, or fields=["*"] for the full response.
+    
+    The response is returned under "data", next to "rateLimit": the remaining request budget per API resource (core, search, code_search, graphql) and when it resets. Requests are queued and spaced automatically and secondary rate limits are retried, so don't fire many calls in parallel. When the remaining budget is low, prefer fewer, broader requests.
+    
+    Results larger than the size budget are returned with "truncated": true, a preview and a "handle". Use readToolResult with that handle to page through, grep or select fields from the full result instead of repeating the request.
+    
     The endpoint should be a GitHub REST API path (without the base URL). Path parameters should be included in the endpoint string using {param} syntax, and query parameters should be passed in the params object.
     
     Only GET requests are supported.`,
@@ -49,6 +68,39 @@ export function createGitHubApiProxyTool(githubToken: string | null) {
           .describe(
             "Query parameters and path parameters as a key-value object. Path parameters will be substituted into the endpoint, query parameters will be added to the URL."
           ),
+        paginate: z
+          .object({
+            maxPages: z
+              .number()
+              .int()
+              .min(1)
+              .max(10)
+              .default(5)
+              .describe("Maximum number of pages to fetch"),
+            maxItems: z
+              .number()
+              .int()
+              .min(1)
+              .max(1000)
+              .default(300)
+              .describe("Maximum number of items to return"),
+          })
+          .optional()
+          .describe(
+            "Follow pagination for list endpoints and concatenate the items. Omit for single objects."
+          ),
+        fields: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Dot-paths of the fields to return, with [] to map over arrays (e.g. ['items[].full_name', 'items[].stargazers_count']). With paginate, paths are relative to each item (e.g. ['number', 'title', 'user.login']). Use ['*'] for the full, unprojected response."
+          ),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            "The nextCursor of a previous paginated result, to continue where it stopped. Requires paginate."
+          ),
         reason: z
           .string()
           .optional()
@@ -60,10 +112,16 @@ export function createGitHubApiProxyTool(githubToken: string | null) {
     execute: async ({
       endpoint,
       params = {},
+      paginate,
+      fields,
+      cursor,
       reason,
     }: {
       endpoint: string;
       params?: Record<string, unknown>;
+      paginate?: { maxPages: number; maxItems: number };
+      fields?: string[];
+      cursor?: string;
       reason?: string;
     }) => {
       let finalEndpoint = endpoint;
@@ -108,12 +166,46 @@ export function createGitHubApiProxyTool(githubToken: string | null) {
           );
         }
 
+        const projection = fields ? normalizeFields(fields) : undefined;
+
+        if (paginate) {
+          const { items, ...pagination } = await paginateGitHub(
+            octokit,
+            cursor
+              ? decodeCursor(cursor)
+              : { route: `GET ${finalEndpoint}`, params: queryParams },
+            paginate,
+            (item) => projectGitHubItem(finalEndpoint, item, projection)
+          );
+          return {
+            data: boundToolResult(resultOwner, "githubApi", items),
+            pagination,
+            rateLimit: getRateLimitBudget(githubToken),
+          };
+        }
+        if (cursor) {
+          throw new Error("cursor requires paginate.");
+        }
+
         // Make the GET request using Octokit's request method
         const response = await octokit.request(`GET ${finalEndpoint}`, {
           ...queryParams,
         });
 
-        return response.data;
+        // File contents are decoded and directory listings compacted, then
+        // fields are projected; large results come back as a preview plus a handle
+        return {
+          data: boundToolResult(
+            resultOwner,
+            "githubApi",
+            projectGitHubResponse(
+              finalEndpoint,
+              normalizeGitHubContent(response.data),
+              projection
+            )
+          ),
+          rateLimit: getRateLimitBudget(githubToken),
+        };
       } catch (error: unknown) {
         if (typeof error === "object" && error !== null && "status" in error) {
           const status = (error as { status: unknown }).status;
@@ -162,8 +254,11 @@ export function createGitHubApiProxyTool(githubToken: string | null) {
 }
 
 // Legacy export for backward compatibility (deprecated)
-export function createGitHubApiTools(githubToken: string | null) {
+export function createGitHubApiTools(
+  githubToken: string | null,
+  resultOwner: string
+) {
   return {
-    githubApi: createGitHubApiProxyTool(githubToken),
+    githubApi: createGitHubApiProxyTool(githubToken, resultOwner),
   };
 }
@@ -0,0 +1,154 @@
+import { tool } from "ai";
+import { zodSchema } from "ai";
+import { z } from "zod";
+import { createGitHubClient } from "@/lib/github-client";
+import { estimateQuery, parseGraphqlDocument } from "@/lib/graphql-document";
+import { boundToolResult } from "@/lib/tool-results";
+
+// Guards against runaway nested connections; GitHub's own cap is 500,000 nodes
+const MAX_ESTIMATED_NODES = 25_000;
+const MAX_ESTIMATED_COST = 25;
+
+// Alias for the rateLimit field appended to every query
+const RATE_LIMIT_ALIAS = "toolRateLimit";
+
+type RateLimit = { cost: number; remaining: number; resetAt: string };
+
+// Helper function to create a read-only GitHub GraphQL tool with token
+export function createGitHubGraphqlTool(
+  githubToken: string | null,
+  resultOwner: string
+) {
+  const octokit = githubToken ? createGitHubClient(githubToken) : null;
+
+  return tool({
+    description: `Run a read-only query against the GitHub GraphQL API (https://docs.github.com/en/graphql). Requires the user to be signed in with GitHub.
+
+    Prefer this over several githubApi calls when the data is nested - e.g. discussions with comments, PR review threads, PRs with their check suites and annotations, or project boards - since one query replaces a dozen REST requests.
+
+    Rules:
+    - Only queries are allowed; mutations and subscriptions are rejected
+    - Send one operation per document (fragments are fine) and pass values through "variables"
+    - Every connection needs first or last; keep them small. Queries estimated above ${MAX_ESTIMATED_NODES} nodes or ${MAX_ESTIMATED_COST} rate limit points are rejected before being sent
+    - The result includes the query's rateLimit cost and the remaining points
+
+    Example:
+    query ($owner: String!, $name: String!) {
+      repository(owner: $owner, name: $name) {
+        pullRequests(last: 5, states: OPEN) {
+          nodes { number title reviewThreads(first: 10) { nodes { isResolved comments(first: 3) { nodes { body author { login } } } } } }
+        }
+      }
+    }`,
+    inputSchema: zodSchema(
+      z.object({
+        query: z
+          .string()
+          .describe("The GraphQL query document (a single query operation)"),
+        variables: z
+          .record(z.string(), z.unknown())
+          .optional()
+          .describe("Variables referenced by the query"),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'fetching review threads', 'listing discussion comments'). The user is reading this to understand why the tool is being called."
+          ),
+      })
+    ),
+    execute: async ({
+      query,
+      variables = {},
+    }: {
+      query: string;
+      variables?: Record<string, unknown>;
+      reason?: string;
+    }) => {
+      if (!octokit) {
+        throw new Error(
+          "The GitHub GraphQL API requires authentication. Please use the 'Sign in with GitHub' button in the navbar to sign in, or use githubApi for public data."
+        );
+      }
+
+      let document: ReturnType<typeof parseGraphqlDocument>;
+      try {
+        document = parseGraphqlDocument(query);
+      } catch (error: unknown) {
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`Invalid GraphQL document: ${message}`);
+      }
+
+      const [operation, ...otherOperations] = document.operations;
+      if (!operation || otherOperations.length > 0) {
+        throw new Error(
+          "The document must contain exactly one query operation."
+        );
+      }
+      if (operation.type !== "query") {
+        throw new Error(
+          `Only read-only queries are allowed; ${operation.type} operations are rejected.`
+        );
+      }
+
+      const estimate = estimateQuery(document, operation, variables);
+      if (
+        estimate.nodes > MAX_ESTIMATED_NODES ||
+        estimate.cost > MAX_ESTIMATED_COST
+      ) {
+        throw new Error(
+          `Query is too expensive: an estimated ${estimate.nodes} nodes and ${estimate.cost} rate limit points (limits: ${MAX_ESTIMATED_NODES} nodes, ${MAX_ESTIMATED_COST} points). Reduce first/last arguments or the nesting depth.`
+        );
+      }
+
+      // Ask for the rate limit in the same request, at the end of the operation
+      const queryWithRateLimit = `${query.slice(0, operation.end)} ${RATE_LIMIT_ALIAS}: rateLimit { cost remaining resetAt } ${query.slice(operation.end)}`;
+
+      try {
+        const { [RATE_LIMIT_ALIAS]: rateLimit, ...data } =
+          await octokit.graphql<
+            Record<string, unknown> & { [RATE_LIMIT_ALIAS]?: RateLimit }
+          >(queryWithRateLimit, variables);
+
+        return boundToolResult(resultOwner, "githubGraphql", {
+          data,
+          rateLimit: rateLimit ?? null,
+          estimate,
+        });
+      } catch (error: unknown) {
+        // GraphQL errors come back with a 200 and an errors array
+        if (
+          typeof error === "object" &&
+          error !== null &&
+          "errors" in error &&
+          Array.isArray((error as { errors: unknown }).errors)
+        ) {
+          const messages = (
+            error as { errors: Array<{ message?: string }> }
+          ).errors
+            .map((graphqlError) => graphqlError.message)
+            .filter(Boolean)
+            .join("; ");
+          throw new Error(`GitHub GraphQL query failed: ${messages}`);
+        }
+        if (typeof error === "object" && error !== null && "status" in error) {
+          const status = (error as { status: unknown }).status;
+          if (status === 401) {
+            throw new Error(
+              "GitHub GraphQL authentication failed. Please sign in with GitHub again."
+            );
+          }
+          if (status === 403) {
+            throw new Error(
+              "GitHub GraphQL API rate limit exceeded or access forbidden. Wait before making more requests or use smaller queries."
+            );
+          }
+        }
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`GitHub GraphQL query failed: ${message}`);
+      }
+    },
+  });
+}
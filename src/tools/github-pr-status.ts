@@ -0,0 +1,303 @@
+import { tool } from "ai";
+import { zodSchema } from "ai";
+import { z } from "zod";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { createGitHubClient, getRateLimitBudget } from "@/lib/github-client";
+import { boundToolResult, clipText } from "@/lib/tool-results";
+
+// Pull requests checked at once; each one costs 2-3 requests plus annotations
+const PR_CONCURRENCY = 4;
+const MAX_ANNOTATIONS_PER_CHECK = 5;
+const ANNOTATION_MAX_CHARS = 300;
+
+const FAILING_CONCLUSIONS = new Set([
+  "failure",
+  "timed_out",
+  "cancelled",
+  "action_required",
+  "startup_failure",
+]);
+const PASSING_CONCLUSIONS = new Set(["success", "neutral", "skipped"]);
+
+export type CiState = "failure" | "pending" | "success" | "none";
+
+type CheckRun = {
+  id: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  html_url: string | null;
+  output: { title: string | null; annotations_count: number };
+};
+
+type CommitStatus = {
+  context: string;
+  state: string;
+  description: string | null;
+  target_url: string | null;
+};
+
+// Combine check runs and legacy commit statuses into one state
+function getCiState(checkRuns: CheckRun[], statuses: CommitStatus[]): CiState {
+  if (checkRuns.length === 0 && statuses.length === 0) {
+    return "none";
+  }
+  if (
+    checkRuns.some((run) => FAILING_CONCLUSIONS.has(run.conclusion ?? "")) ||
+    statuses.some(
+      (status) => status.state === "failure" || status.state === "error"
+    )
+  ) {
+    return "failure";
+  }
+  if (
+    checkRuns.some((run) => run.status !== "completed") ||
+    statuses.some((status) => status.state === "pending")
+  ) {
+    return "pending";
+  }
+  return "success";
+}
+
+// Helper function to create the "my pull requests with CI status" tool with token
+export function createGitHubPrStatusTool(
+  githubToken: string | null,
+  resultOwner: string
+) {
+  const octokit = createGitHubClient(githubToken);
+
+  return tool({
+    description: `List a user's pull requests together with their CI status in one call. Use this for questions like "which of my PRs are failing CI?" instead of chaining githubApi calls.
+
+    For each pull request it returns the repository, head branch and SHA, a combined CI state (failure, pending, success or none) from check runs and commit statuses, check counts, and for failing checks their name, conclusion, link and a summary of their annotations (file, line and message).
+
+    The user defaults to the signed-in GitHub user; pass "user" to look at someone else's public PRs. Filter with repo ("owner/name"), org, state and draft. Set onlyFailing to drop PRs whose CI isn't failing.`,
+    inputSchema: zodSchema(
+      z.object({
+        user: z
+          .string()
+          .optional()
+          .describe(
+            "GitHub login whose pull requests to list. Defaults to the signed-in user."
+          ),
+        repo: z
+          .string()
+          .optional()
+          .describe("Only PRs in this repository (owner/name)"),
+        org: z
+          .string()
+          .optional()
+          .describe("Only PRs in repositories of this organization or user"),
+        state: z
+          .enum(["open", "closed", "all"])
+          .default("open")
+          .describe("Pull request state"),
+        draft: z
+          .boolean()
+          .optional()
+          .describe("true for drafts only, false to exclude drafts"),
+        onlyFailing: z
+          .boolean()
+          .default(false)
+          .describe("Only return PRs whose CI is failing"),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(50)
+          .default(20)
+          .describe(
+            "Maximum number of pull requests to check (most recently updated first)"
+          ),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'checking CI status of your open PRs'). The user is reading this to understand why the tool is being called."
+          ),
+      })
+    ),
+    execute: async ({
+      user,
+      repo,
+      org,
+      state,
+      draft,
+      onlyFailing,
+      limit,
+    }: {
+      user?: string;
+      repo?: string;
+      org?: string;
+      state: "open" | "closed" | "all";
+      draft?: boolean;
+      onlyFailing: boolean;
+      limit: number;
+      reason?: string;
+    }) => {
+      if (!user && !githubToken) {
+        throw new Error(
+          "Listing your pull requests requires authentication. Please use the 'Sign in with GitHub' button in the navbar to sign in, or pass a GitHub login as 'user'."
+        );
+      }
+
+      try {
+        const login =
+          user ?? (await octokit.rest.users.getAuthenticated()).data.login;
+
+        const qualifiers = [`is:pr`, `author:${login}`, "archived:false"];
+        if (state !== "all") qualifiers.push(`state:${state}`);
+        if (repo) qualifiers.push(`repo:${repo}`);
+        if (org) qualifiers.push(`org:${org}`);
+        if (draft !== undefined) qualifiers.push(`draft:${draft}`);
+        const query = qualifiers.join(" ");
+
+        const search = await octokit.rest.search.issuesAndPullRequests({
+          q: query,
+          sort: "updated",
+          order: "desc",
+          per_page: limit,
+        });
+
+        const rows = await mapWithConcurrency(
+          search.data.items,
+          PR_CONCURRENCY,
+          async (item) => {
+            // repository_url is https://api.github.com/repos/{owner}/{repo}
+            const [owner = "", name = ""] = item.repository_url
+              .split("/")
+              .slice(-2);
+            const base = {
+              pr: `${owner}/${name}#${item.number}`,
+              title: item.title,
+              url: item.html_url,
+              draft: item.draft ?? false,
+              state: item.state,
+              updatedAt: item.updated_at,
+            };
+
+            try {
+              const { data: pull } = await octokit.rest.pulls.get({
+                owner,
+                repo: name,
+                pull_number: item.number,
+              });
+              const ref = pull.head.sha;
+
+              const [checkRuns, combinedStatus] = await Promise.all([
+                octokit.rest.checks.listForRef({
+                  owner,
+                  repo: name,
+                  ref,
+                  per_page: 100,
+                }),
+                octokit.rest.repos.getCombinedStatusForRef({
+                  owner,
+                  repo: name,
+                  ref,
+                  per_page: 100,
+                }),
+              ]);
+              const runs = checkRuns.data.check_runs as CheckRun[];
+              const statuses = combinedStatus.data.statuses as CommitStatus[];
+
+              const failingRuns = runs.filter((run) =>
+                FAILING_CONCLUSIONS.has(run.conclusion ?? "")
+              );
+              const failingChecks = await Promise.all(
+                failingRuns.map(async (run) => {
+                  let annotations: string[] = [];
+                  if (run.output.annotations_count > 0) {
+                    const { data } = await octokit.rest.checks.listAnnotations({
+                      owner,
+                      repo: name,
+                      check_run_id: run.id,
+                      per_page: MAX_ANNOTATIONS_PER_CHECK,
+                    });
+                    annotations = data.map((annotation) =>
+                      clipText(
+                        `${annotation.path}:${annotation.start_line} ${annotation.annotation_level}: ${annotation.title ? `${annotation.title} - ` : ""}${annotation.message ?? ""}`,
+                        ANNOTATION_MAX_CHARS
+                      )
+                    );
+                  }
+                  return {
+                    name: run.name,
+                    conclusion: run.conclusion,
+                    url: run.html_url,
+                    summary: run.output.title,
+                    annotationCount: run.output.annotations_count,
+                    annotations,
+                  };
+                })
+              );
+
+              return {
+                ...base,
+                headRef: pull.head.ref,
+                headSha: ref,
+                baseRef: pull.base.ref,
+                mergeableState: pull.mergeable_state,
+                ci: getCiState(runs, statuses),
+                checks: {
+                  total: runs.length,
+                  passed: runs.filter((run) =>
+                    PASSING_CONCLUSIONS.has(run.conclusion ?? "")
+                  ).length,
+                  failed: failingRuns.length,
+                  pending: runs.filter((run) => run.status !== "completed")
+                    .length,
+                },
+                failingChecks,
+                failingStatuses: statuses
+                  .filter(
+                    (status) =>
+                      status.state === "failure" || status.state === "error"
+                  )
+                  .map((status) => ({
+                    context: status.context,
+                    state: status.state,
+                    description: status.description,
+                    url: status.target_url,
+                  })),
+              };
+            } catch (error: unknown) {
+              // Keep the rest of the table if one repository is inaccessible
+              const message =
+                error instanceof Error ? error.message : "Unknown error";
+              return { ...base, ci: "unknown" as const, error: message };
+            }
+          }
+        );
+
+        return boundToolResult(resultOwner, "githubPrStatus", {
+          user: login,
+          query,
+          totalCount: search.data.total_count,
+          checked: rows.length,
+          pullRequests: onlyFailing
+            ? rows.filter((row) => row.ci === "failure")
+            : rows,
+          rateLimit: getRateLimitBudget(githubToken),
+        });
+      } catch (error: unknown) {
+        if (typeof error === "object" && error !== null && "status" in error) {
+          const status = (error as { status: unknown }).status;
+          if (status === 401) {
+            throw new Error(
+              "GitHub authentication failed. Please sign in with GitHub again."
+            );
+          }
+          if (status === 422) {
+            throw new Error(
+              "GitHub rejected the search. Check that the user, repo and org exist."
+            );
+          }
+        }
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`Failed to get pull request CI status: ${message}`);
+      }
+    },
+  });
+}
@@ -0,0 +1,183 @@
+import { tool } from "ai";
+import { zodSchema } from "ai";
+import { z } from "zod";
+import { getPath, projectFields } from "@/lib/json-path";
+import {
+  TOOL_RESULT_MAX_CHARS,
+  clipText,
+  getStoredToolResult,
+  toResultText,
+} from "@/lib/tool-results";
+
+const MAX_GREP_MATCHES = 100;
+
+// Read slices of a tool result that was too large to return in full. Only
+// results stored for the same owner (this user's chat) can be read.
+export function createReadToolResultTool(resultOwner: string) {
+  return tool({
+    description: `Read a tool result that was too large to return in full. Results that exceed the size budget come back with "truncated": true and a "handle" - pass that handle here.
+
+  Modes:
+  - page: return lines [offset, offset + limit) of the result (JSON results are pretty-printed, one field per line)
+  - grep: return the lines matching a regular expression, with line numbers and optional context
+  - fields: project JSON fields by dot-path, e.g. ["total_count", "items[].full_name", "items[].owner.login"]
+
+  Use "path" to narrow the result first, e.g. path="stdout" for sandbox output or path="items" for search results.
+  Handles only last for the current response. To read a result from an earlier message, repeat the original tool call.`,
+    inputSchema: zodSchema(
+      z.object({
+        handle: z
+          .string()
+          .describe("The handle returned with a truncated tool result"),
+        mode: z
+          .enum(["page", "grep", "fields"])
+          .default("page")
+          .describe("How to read the result: page, grep or fields"),
+        path: z
+          .string()
+          .optional()
+          .describe(
+            "Optional dot-path to select part of the result before reading (e.g. 'stdout', 'items', 'items[].path')"
+          ),
+        offset: z
+          .number()
+          .int()
+          .min(0)
+          .default(0)
+          .describe("page mode: first line to return (0-based)"),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(1000)
+          .default(200)
+          .describe("page mode: number of lines to return"),
+        pattern: z
+          .string()
+          .optional()
+          .describe("grep mode: regular expression to search for"),
+        ignoreCase: z
+          .boolean()
+          .default(true)
+          .describe("grep mode: case-insensitive matching"),
+        context: z
+          .number()
+          .int()
+          .min(0)
+          .max(10)
+          .default(0)
+          .describe("grep mode: lines of context around each match"),
+        fields: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "fields mode: dot-paths to keep, with [] to map over arrays (e.g. 'items[].name')"
+          ),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'paging through search results', 'searching command output for errors'). This describes the LLM's action from the user's perspective."
+          ),
+      })
+    ),
+    execute: async ({
+      handle,
+      mode,
+      path,
+      offset,
+      limit,
+      pattern,
+      ignoreCase,
+      context,
+      fields,
+    }) => {
+      const stored = getStoredToolResult(resultOwner, handle);
+      if (!stored) {
+        throw new Error(
+          `No stored result for handle "${handle}". Handles only last for the response that produced them - repeat the original tool call to get a new one.`
+        );
+      }
+
+      const value = path ? getPath(stored.value, path) : stored.value;
+      if (value === undefined) {
+        throw new Error(`Path "${path}" does not exist in the stored result.`);
+      }
+
+      if (mode === "fields") {
+        if (!fields || fields.length === 0) {
+          throw new Error("fields mode requires a non-empty fields array.");
+        }
+        const projected = projectFields(value, fields);
+        const text = toResultText(projected);
+        return text.length <= TOOL_RESULT_MAX_CHARS
+          ? { handle, tool: stored.tool, result: projected }
+          : {
+              handle,
+              tool: stored.tool,
+              truncated: true,
+              result: clipText(text, TOOL_RESULT_MAX_CHARS),
+            };
+      }
+
+      const lines = toResultText(value).split("\n");
+
+      if (mode === "grep") {
+        if (!pattern) {
+          throw new Error("grep mode requires a pattern.");
+        }
+        let regex: RegExp;
+        try {
+          regex = new RegExp(pattern, ignoreCase ? "i" : "");
+        } catch {
+          throw new Error(`Invalid regular expression: ${pattern}`);
+        }
+
+        const matches: Array<{ line: number; text: string }> = [];
+        const included = new Set<number>();
+        let matchCount = 0;
+        let size = 0;
+        let truncated = false;
+        for (const [index, line] of lines.entries()) {
+          if (!regex.test(line)) continue;
+          matchCount++;
+          if (matchCount > MAX_GREP_MATCHES || size > TOOL_RESULT_MAX_CHARS) {
+            truncated = true;
+            continue;
+          }
+          const start = Math.max(0, index - context);
+          const end = Math.min(lines.length - 1, index + context);
+          for (let i = start; i <= end; i++) {
+            if (included.has(i)) continue;
+            included.add(i);
+            const text = lines[i] ?? "";
+            size += text.length;
+            matches.push({ line: i, text });
+          }
+        }
+
+        return {
+          handle,
+          tool: stored.tool,
+          totalLines: lines.length,
+          matchCount,
+          truncated,
+          matches,
+        };
+      }
+
+      const page = lines.slice(offset, offset + limit).join("\n");
+      const text = clipText(page, TOOL_RESULT_MAX_CHARS);
+      const end = Math.min(lines.length, offset + limit);
+      return {
+        handle,
+        tool: stored.tool,
+        totalLines: lines.length,
+        offset,
+        nextOffset: end < lines.length ? end : null,
+        truncated: text.length < page.length,
+        text,
+      };
+    },
+  });
+}
@@ -0,0 +1,347 @@
+import { tool } from "ai";
+import { zodSchema } from "ai";
+import { z } from "zod";
+import { findNotices, parseChangelog } from "@/lib/changelog";
+import { createGitHubClient, getRateLimitBudget } from "@/lib/github-client";
+import { decodeText } from "@/lib/github-content";
+import {
+  compareVersions,
+  formatVersion,
+  isInRange,
+  parseVersion,
+  type Version,
+} from "@/lib/semver";
+import { boundToolResult, clipText } from "@/lib/tool-results";
+
+const RELEASES_PER_PAGE = 100;
+const RELEASES_MAX_PAGES = 5;
+const NOTES_MAX_CHARS = 3_000;
+const CHANGELOG_PATHS = [
+  "CHANGELOG.md",
+  "CHANGELOG",
+  "HISTORY.md",
+  "CHANGES.md",
+];
+
+type ReleaseEntry = {
+  version: string;
+  tag: string | null;
+  name: string | null;
+  date: string | null;
+  url: string | null;
+  prerelease: boolean;
+  majorBump?: boolean;
+  breaking: string[];
+  deprecations: string[];
+  releaseNotes?: string;
+  changelog?: string;
+};
+
+function isNotFound(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "status" in error &&
+    (error as { status: unknown }).status === 404
+  );
+}
+
+function parseBound(value: string | undefined, name: string): Version | null {
+  if (value === undefined) {
+    return null;
+  }
+  const version = parseVersion(value);
+  if (!version) {
+    throw new Error(
+      `${name} "${value}" is not a version. Use forms like "1.2.3", "v1.2", "5" or "pkg@1.2.3".`
+    );
+  }
+  return version;
+}
+
+// Helper function to create the release notes tool with token
+export function createReleaseNotesTool(
+  githubToken: string | null,
+  resultOwner: string
+) {
+  const octokit = createGitHubClient(githubToken);
+
+  return tool({
+    description: `Collect what changed between two versions of a repository: its GitHub releases plus the matching sections of its CHANGELOG, merged per version and ordered oldest to newest. Use this for upgrade questions ("what changed from 4.2 to 5.1?", "is upgrading breaking?") instead of paging /releases.
+
+    Versions are compared by semver: "v1.2.3" and "1.2.3" are the same version, from is exclusive and to is inclusive, and a partial to ("5" or "5.1") covers the whole series. Monorepo tags such as "pkg@1.2.3", "@scope/pkg@1.2.3" and "pkg-v1.2.3" are supported; pass package to pick one package's releases.
+
+    Each version lists the lines flagged as breaking changes or deprecations, and majorBump marks major version jumps. Prereleases are skipped unless includePrereleases=true.`,
+    inputSchema: zodSchema(
+      z.object({
+        owner: z.string().describe("Repository owner"),
+        repo: z.string().describe("Repository name"),
+        from: z
+          .string()
+          .optional()
+          .describe(
+            "Version to upgrade from, exclusive (e.g. '4.2.0', 'v4.2'). Omit to start from the oldest release."
+          ),
+        to: z
+          .string()
+          .optional()
+          .describe(
+            "Version to upgrade to, inclusive (e.g. '5.1.0', '5'). Omit to go up to the latest release."
+          ),
+        package: z
+          .string()
+          .optional()
+          .describe(
+            "Package name for monorepo tags like 'pkg@1.2.3' (e.g. '@ai-sdk/react')"
+          ),
+        changelogPath: z
+          .string()
+          .optional()
+          .describe(
+            "Path of the changelog file if it isn't CHANGELOG.md at the root"
+          ),
+        includePrereleases: z
+          .boolean()
+          .default(false)
+          .describe("Include alpha/beta/rc versions"),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(50)
+          .default(20)
+          .describe("Maximum number of versions to return (newest are kept)"),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'checking breaking changes between v4 and v5'). The user is reading this to understand why the tool is being called."
+          ),
+      })
+    ),
+    execute: async ({
+      owner,
+      repo,
+      from,
+      to,
+      package: packageInput,
+      changelogPath,
+      includePrereleases,
+      limit,
+    }: {
+      owner: string;
+      repo: string;
+      from?: string;
+      to?: string;
+      package?: string;
+      changelogPath?: string;
+      includePrereleases: boolean;
+      limit: number;
+      reason?: string;
+    }) => {
+      const fromVersion = parseBound(from, "from");
+      const toVersion = parseBound(to, "to");
+      const packageName =
+        packageInput ?? fromVersion?.package ?? toVersion?.package ?? null;
+
+      const matches = (version: Version) =>
+        isInRange(version, fromVersion, toVersion) &&
+        (includePrereleases || version.prerelease.length === 0);
+
+      try {
+        const entries = new Map<string, ReleaseEntry>();
+        const versions = new Map<string, Version>();
+        const packagesSeen = new Set<string>();
+        let releasesCapped = false;
+
+        for (let page = 1; page <= RELEASES_MAX_PAGES; page++) {
+          const { data } = await octokit.rest.repos.listReleases({
+            owner,
+            repo,
+            per_page: RELEASES_PER_PAGE,
+            page,
+          });
+          // Releases come newest first, so once a whole page of the package's
+          // releases is at or below from, later pages can't match either
+          let pageHasNewer = false;
+          let pageHasPackage = false;
+          for (const release of data) {
+            if (release.draft) continue;
+            const version = parseVersion(release.tag_name);
+            if (!version) continue;
+            if (version.package) packagesSeen.add(version.package);
+            if (version.package !== packageName) continue;
+            pageHasPackage = true;
+            if (!fromVersion || compareVersions(version, fromVersion) > 0) {
+              pageHasNewer = true;
+            }
+            if (!matches(version)) continue;
+
+            const key = formatVersion(version);
+            versions.set(key, version);
+            entries.set(key, {
+              version: key,
+              tag: release.tag_name,
+              name: release.name || null,
+              date: release.published_at ?? release.created_at,
+              url: release.html_url,
+              prerelease: release.prerelease || version.prerelease.length > 0,
+              breaking: [],
+              deprecations: [],
+              ...(release.body ? { releaseNotes: release.body } : {}),
+            });
+          }
+          if (data.length < RELEASES_PER_PAGE) break;
+          if (pageHasPackage && !pageHasNewer) break;
+          releasesCapped = page === RELEASES_MAX_PAGES;
+        }
+
+        // Per-package changelogs usually live next to the package
+        const candidates = changelogPath
+          ? [changelogPath.replace(/^\/+/, "")]
+          : [
+              ...(packageName
+                ? [`packages/${packageName.split("/").pop()}/CHANGELOG.md`]
+                : []),
+              ...CHANGELOG_PATHS,
+            ];
+        let foundChangelog: string | null = null;
+        for (const path of candidates) {
+          try {
+            const { data } = await octokit.rest.repos.getContent({
+              owner,
+              repo,
+              path,
+            });
+            if (Array.isArray(data) || data.type !== "file") continue;
+            const text = decodeText(data.content);
+            if (text === null) continue;
+            foundChangelog = path;
+
+            for (const section of parseChangelog(text)) {
+              const { version } = section;
+              // Headings in a package's own changelog carry no package name
+              if (version.package !== null && version.package !== packageName)
+                continue;
+              if (!matches(version)) continue;
+
+              const key = formatVersion(version);
+              const existing = entries.get(key);
+              if (existing?.changelog !== undefined) continue;
+              versions.set(key, version);
+              entries.set(key, {
+                ...(existing ?? {
+                  version: key,
+                  tag: null,
+                  name: null,
+                  date: null,
+                  url: null,
+                  prerelease: version.prerelease.length > 0,
+                  breaking: [],
+                  deprecations: [],
+                }),
+                changelog: section.body,
+              });
+            }
+            break;
+          } catch (error: unknown) {
+            if (isNotFound(error)) continue;
+            throw error;
+          }
+        }
+
+        if (
+          entries.size === 0 &&
+          packageName === null &&
+          packagesSeen.size > 0
+        ) {
+          throw new Error(
+            `${owner}/${repo} tags its releases per package. Pass package as one of: ${[...packagesSeen].slice(0, 20).join(", ")}.`
+          );
+        }
+
+        const sorted = [...entries.values()].sort((a, b) =>
+          compareVersions(
+            versions.get(a.version) as Version,
+            versions.get(b.version) as Version
+          )
+        );
+        let previousMajor = fromVersion?.major ?? null;
+        for (const entry of sorted) {
+          const version = versions.get(entry.version) as Version;
+          if (previousMajor !== null && version.major > previousMajor) {
+            entry.majorBump = true;
+          }
+          previousMajor = version.major;
+
+          // The release and changelog often repeat each other
+          const notices = findNotices(
+            [entry.releaseNotes, entry.changelog].filter(Boolean).join("\n")
+          );
+          entry.breaking = [...new Set(notices.breaking)];
+          entry.deprecations = [...new Set(notices.deprecations)];
+          // Notices are read from the full text; only what is returned is clipped
+          if (entry.releaseNotes) {
+            entry.releaseNotes = clipText(entry.releaseNotes, NOTES_MAX_CHARS);
+          }
+          if (entry.changelog !== undefined) {
+            entry.changelog = clipText(entry.changelog, NOTES_MAX_CHARS);
+          }
+        }
+        const shown = sorted.slice(-limit);
+
+        const notes: string[] = [];
+        if (sorted.length > shown.length) {
+          notes.push(
+            `${sorted.length - shown.length} older versions in the range were left out; raise from or limit to see them.`
+          );
+        }
+        if (releasesCapped) {
+          notes.push(
+            `Only the ${RELEASES_PER_PAGE * RELEASES_MAX_PAGES} most recent GitHub releases were read.`
+          );
+        }
+        if (!foundChangelog) {
+          notes.push(
+            `No changelog found at ${candidates.join(", ")}; pass changelogPath if it lives elsewhere.`
+          );
+        }
+        if (sorted.length === 0) {
+          notes.push("No releases or changelog sections matched the range.");
+        }
+
+        return boundToolResult(resultOwner, "releaseNotes", {
+          repository: `${owner}/${repo}`,
+          package: packageName,
+          from: from ?? null,
+          to: to ?? null,
+          changelog: foundChangelog,
+          summary: {
+            versions: sorted.length,
+            majorBumps: sorted
+              .filter((entry) => entry.majorBump)
+              .map((entry) => entry.version),
+            withBreakingChanges: sorted
+              .filter((entry) => entry.breaking.length > 0)
+              .map((entry) => entry.version),
+            withDeprecations: sorted
+              .filter((entry) => entry.deprecations.length > 0)
+              .map((entry) => entry.version),
+          },
+          versions: shown,
+          ...(notes.length > 0 ? { note: notes.join(" ") } : {}),
+          rateLimit: getRateLimitBudget(githubToken),
+        });
+      } catch (error: unknown) {
+        if (isNotFound(error)) {
+          throw new Error(
+            `Not found: check that ${owner}/${repo} exists and is accessible.`
+          );
+        }
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`Failed to get release notes: ${message}`);
+      }
+    },
+  });
+}
@@ -0,0 +1,326 @@
+import { tool } from "ai";
+import { zodSchema } from "ai";
+import { z } from "zod";
+import { createGitHubClient, getRateLimitBudget } from "@/lib/github-client";
+import { createGlobMatcher } from "@/lib/glob";
+import { boundToolResult } from "@/lib/tool-results";
+
+// Subtree requests allowed when GitHub truncates a recursive tree
+const MAX_SUBTREE_REQUESTS = 40;
+
+type TreeEntry = {
+  path: string;
+  type: "blob" | "tree" | "commit";
+  mode: string;
+  sha: string;
+  size?: number;
+};
+
+type DirectoryNode = {
+  directories: Map<string, DirectoryNode>;
+  files: Array<{ name: string; size: number; note?: string }>;
+  fileCount: number;
+  totalSize: number;
+  // Contents weren't listed because the tree was truncated
+  incomplete?: boolean;
+};
+
+function createNode(): DirectoryNode {
+  return { directories: new Map(), files: [], fileCount: 0, totalSize: 0 };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+function getDirectory(root: DirectoryNode, path: string): DirectoryNode {
+  let node = root;
+  for (const name of path.split("/").filter(Boolean)) {
+    let child = node.directories.get(name);
+    if (!child) {
+      child = createNode();
+      node.directories.set(name, child);
+    }
+    node = child;
+  }
+  return node;
+}
+
+function addFile(
+  root: DirectoryNode,
+  path: string,
+  file: { size: number; note?: string }
+) {
+  const slash = path.lastIndexOf("/");
+  const directory = getDirectory(
+    root,
+    slash === -1 ? "" : path.slice(0, slash)
+  );
+  directory.files.push({ name: path.slice(slash + 1), ...file });
+}
+
+// Fill in fileCount/totalSize and drop directories left empty by filters
+function summarize(node: DirectoryNode, keepEmpty: boolean) {
+  node.fileCount = node.files.length;
+  node.totalSize = node.files.reduce((sum, file) => sum + file.size, 0);
+  for (const [name, child] of node.directories) {
+    summarize(child, keepEmpty);
+    if (child.fileCount === 0 && !child.incomplete && !keepEmpty) {
+      node.directories.delete(name);
+      continue;
+    }
+    node.fileCount += child.fileCount;
+    node.totalSize += child.totalSize;
+  }
+}
+
+function render(
+  node: DirectoryNode,
+  depth: number,
+  maxDepth: number,
+  lines: string[]
+) {
+  const indent = "  ".repeat(depth);
+  const directories = [...node.directories].sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+  for (const [name, child] of directories) {
+    const summary = child.incomplete
+      ? "not fetched"
+      : `${child.fileCount} ${child.fileCount === 1 ? "file" : "files"}, ${formatBytes(child.totalSize)}`;
+    lines.push(`${indent}${name}/ (${summary})`);
+    if (depth + 1 < maxDepth) {
+      render(child, depth + 1, maxDepth, lines);
+    }
+  }
+  const files = [...node.files].sort((a, b) => a.name.localeCompare(b.name));
+  for (const file of files) {
+    lines.push(
+      `${indent}${file.name} (${file.note ?? formatBytes(file.size)})`
+    );
+  }
+}
+
+// Helper function to create the repository tree tool with token
+export function createRepoTreeTool(
+  githubToken: string | null,
+  resultOwner: string
+) {
+  const octokit = createGitHubClient(githubToken);
+
+  return tool({
+    description: `Show the file tree of a GitHub repository (or one directory of it) in a single call, using the Git Trees API. Use this to get an overview of a repository's structure before reading files, instead of listing directories one by one.
+
+    Returns an indented tree with file sizes, and for every directory the number of files and total size beneath it. Directories deeper than maxDepth are collapsed to their summary line.
+
+    Filter with glob patterns (gitignore style): "*" matches within a name, "**" across directories, "{a,b}" alternatives. Patterns without a "/" match names at any depth.
+    - include=["*.ts", "*.tsx"] - only TypeScript files
+    - include=["docs/**"] - only the docs directory
+    - exclude=["node_modules", "dist/", "*.lock"] - hide directories and files`,
+    inputSchema: zodSchema(
+      z.object({
+        owner: z.string().describe("Repository owner"),
+        repo: z.string().describe("Repository name"),
+        ref: z
+          .string()
+          .optional()
+          .describe(
+            "Branch, tag or commit SHA. Defaults to the default branch."
+          ),
+        path: z
+          .string()
+          .optional()
+          .describe(
+            "Directory to start from (e.g. 'src/lib'). Defaults to the root."
+          ),
+        include: z
+          .array(z.string())
+          .optional()
+          .describe("Glob patterns; only matching files are shown"),
+        exclude: z
+          .array(z.string())
+          .optional()
+          .describe("Glob patterns for files and directories to hide"),
+        maxDepth: z
+          .number()
+          .int()
+          .min(1)
+          .max(20)
+          .default(4)
+          .describe("Directory levels to expand"),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'getting an overview of the repository layout'). The user is reading this to understand why the tool is being called."
+          ),
+      })
+    ),
+    execute: async ({
+      owner,
+      repo,
+      ref,
+      path = "",
+      include = [],
+      exclude = [],
+      maxDepth,
+    }: {
+      owner: string;
+      repo: string;
+      ref?: string;
+      path?: string;
+      include?: string[];
+      exclude?: string[];
+      maxDepth: number;
+      reason?: string;
+    }) => {
+      let isIncluded: (path: string) => boolean;
+      let isExcluded: (path: string) => boolean;
+      try {
+        isIncluded =
+          include.length > 0 ? createGlobMatcher(include) : () => true;
+        isExcluded = createGlobMatcher(exclude);
+      } catch (error: unknown) {
+        throw new Error(
+          error instanceof Error ? error.message : "Invalid glob pattern"
+        );
+      }
+
+      const basePath = path.replace(/^\/+|\/+$/g, "");
+
+      try {
+        const resolvedRef =
+          ref ??
+          (await octokit.rest.repos.get({ owner, repo })).data.default_branch;
+
+        const getTree = async (treeSha: string, recursive: boolean) => {
+          const { data } = await octokit.rest.git.getTree({
+            owner,
+            repo,
+            tree_sha: treeSha,
+            ...(recursive ? { recursive: "1" } : {}),
+          });
+          return data as { sha: string; tree: TreeEntry[]; truncated: boolean };
+        };
+
+        // Walk down to the starting directory one level at a time
+        let rootSha = resolvedRef;
+        let walked = "";
+        for (const name of basePath.split("/").filter(Boolean)) {
+          const { tree } = await getTree(rootSha, false);
+          const entry = tree.find((item) => item.path === name);
+          walked = walked ? `${walked}/${name}` : name;
+          if (!entry || entry.type !== "tree") {
+            throw new Error(
+              `"${walked}" is not a directory at ${resolvedRef}.`
+            );
+          }
+          rootSha = entry.sha;
+        }
+
+        // Entries relative to the starting directory. GitHub truncates
+        // recursive trees above ~100,000 entries or 7 MB; then each subtree
+        // is requested on its own, down to maxDepth.
+        const entries: TreeEntry[] = [];
+        const unfetched: string[] = [];
+        let requests = 0;
+        const collect = async (sha: string, prefix: string, depth: number) => {
+          requests++;
+          const recursive = await getTree(sha, true);
+          if (!recursive.truncated) {
+            for (const entry of recursive.tree) {
+              entries.push({ ...entry, path: `${prefix}${entry.path}` });
+            }
+            return;
+          }
+          requests++;
+          const { tree } = await getTree(sha, false);
+          for (const entry of tree) {
+            const entryPath = `${prefix}${entry.path}`;
+            entries.push({ ...entry, path: entryPath });
+            if (entry.type !== "tree" || isExcluded(entryPath)) continue;
+            if (depth < maxDepth && requests < MAX_SUBTREE_REQUESTS) {
+              await collect(entry.sha, `${entryPath}/`, depth + 1);
+            } else {
+              unfetched.push(entryPath);
+            }
+          }
+        };
+        await collect(rootSha, "", 0);
+
+        const root = createNode();
+        const excludedDirectories: string[] = [];
+        for (const entry of entries) {
+          // Skip anything inside an excluded directory
+          if (
+            excludedDirectories.some((directory) =>
+              entry.path.startsWith(`${directory}/`)
+            )
+          ) {
+            continue;
+          }
+          if (isExcluded(entry.path)) {
+            if (entry.type === "tree") excludedDirectories.push(entry.path);
+            continue;
+          }
+          if (entry.type === "tree") {
+            if (include.length === 0) getDirectory(root, entry.path);
+            continue;
+          }
+          if (!isIncluded(entry.path)) continue;
+          addFile(root, entry.path, {
+            size: entry.size ?? 0,
+            ...(entry.type === "commit"
+              ? { note: `submodule @ ${entry.sha.slice(0, 7)}` }
+              : entry.mode === "120000"
+                ? { note: "symlink" }
+                : {}),
+          });
+        }
+        for (const directory of unfetched) {
+          getDirectory(root, directory).incomplete = true;
+        }
+        summarize(root, include.length === 0);
+
+        const lines: string[] = [];
+        render(root, 0, maxDepth, lines);
+
+        return boundToolResult(resultOwner, "repoTree", {
+          repository: `${owner}/${repo}`,
+          ref: resolvedRef,
+          path: basePath || "/",
+          totalFiles: root.fileCount,
+          totalSize: formatBytes(root.totalSize),
+          ...(unfetched.length > 0
+            ? {
+                incomplete: true,
+                note: `The repository is too large to list in full; ${unfetched.length} directories weren't fetched. Call again with path set to one of them.`,
+              }
+            : {}),
+          tree: lines.join("\n"),
+          rateLimit: getRateLimitBudget(githubToken),
+        });
+      } catch (error: unknown) {
+        if (typeof error === "object" && error !== null && "status" in error) {
+          const status = (error as { status: unknown }).status;
+          if (status === 404 || status === 409 || status === 422) {
+            throw new Error(
+              `Repository tree not found: check that ${owner}/${repo} exists, is accessible and has ref "${ref ?? "default branch"}". Empty repositories have no tree.`
+            );
+          }
+        }
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`Failed to get repository tree: ${message}`);
+      }
+    },
+  });
+}
@@ -3,15 +3,50 @@ import { zodSchema } from "ai";
 import { z } from "zod";
 import { Sandbox } from "@vercel/sandbox";
 import ms from "ms";
+import {
+  loadSandboxRecord,
+  removeSandboxRecord,
+  saveSandboxRecord,
+  saveSandboxRepository,
+  type SandboxOwner,
+} from "@/lib/sandbox-store";
+import {
+  TOOL_RESULT_MAX_CHARS,
+  clipText,
+  storeToolResult,
+} from "@/lib/tool-results";
 
-// Store active sandboxes by chat ID
+const SANDBOX_TIMEOUT_MS = ms("10m");
+// Sandbox handles kept per instance; the oldest are dropped first
+const MAX_CACHED_SANDBOXES = 100;
+
+// Store active sandboxes by request owner key (see getRequestOwnerKey)
 interface SandboxInfo {
   sandbox: Sandbox;
   sandboxId: string;
   createdAt: number;
+  // When Vercel stops the sandbox at its timeout
+  expiresAt: number;
 }
 
-const sandboxByChatId = new Map<string, SandboxInfo>();
+const sandboxByKey = new Map<string, SandboxInfo>();
+
+// Cache a sandbox handle, dropping expired and excess ones
+function cacheSandbox(sandboxKey: string, info: SandboxInfo) {
+  const now = Date.now();
+  sandboxByKey.delete(sandboxKey);
+  sandboxByKey.set(sandboxKey, info);
+  for (const [key, cached] of sandboxByKey) {
+    if (cached.expiresAt <= now) {
+      sandboxByKey.delete(key);
+    }
+  }
+  // Map iteration is in insertion order, so the oldest entries go first
+  for (const key of sandboxByKey.keys()) {
+    if (sandboxByKey.size <= MAX_CACHED_SANDBOXES) break;
+    sandboxByKey.delete(key);
+  }
+}
 
 // Helper to check if an error indicates a dead sandbox
 function isSandboxDeadError(error: unknown): boolean {
@@ -25,25 +60,88 @@ function isSandboxDeadError(error: unknown): boolean {
 }
 
 // Helper to handle dead sandbox cleanup and retry
-async function handleDeadSandbox(chatId: string): Promise<void> {
-  const existing = sandboxByChatId.get(chatId);
+async function handleDeadSandbox(
+  sandboxKey: string,
+  owner: SandboxOwner | null
+): Promise<void> {
+  const existing = sandboxByKey.get(sandboxKey);
   if (existing) {
     try {
       await existing.sandbox.stop();
     } catch (stopError) {
       // Ignore errors stopping dead sandbox
     }
-    sandboxByChatId.delete(chatId);
+    sandboxByKey.delete(sandboxKey);
+    if (owner) {
+      await removeSandboxRecord(owner, existing.sandboxId);
+    }
   }
 }
 
-// Helper to get or create sandbox for a chat ID
-async function getOrCreateSandbox(chatId: string): Promise<Sandbox> {
-  const existing = sandboxByChatId.get(chatId);
+// Vercel credentials for Sandbox.get, when not using the deployment's OIDC token
+function getSandboxCredentials() {
+  const { VERCEL_TOKEN, VERCEL_TEAM_ID, VERCEL_PROJECT_ID } = process.env;
+  return VERCEL_TOKEN && VERCEL_TEAM_ID && VERCEL_PROJECT_ID
+    ? {
+        token: VERCEL_TOKEN,
+        teamId: VERCEL_TEAM_ID,
+        projectId: VERCEL_PROJECT_ID,
+      }
+    : {};
+}
 
-  // If sandbox exists, return it
-  if (existing) {
-    return existing.sandbox;
+// Reattach to a sandbox recorded in Convex, possibly created by another
+// server instance. Returns null if it has stopped.
+async function reattachSandbox(sandboxId: string): Promise<Sandbox | null> {
+  try {
+    const sandbox = await Sandbox.get({
+      sandboxId,
+      ...getSandboxCredentials(),
+    });
+    return sandbox.status === "running" ? sandbox : null;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`[Sandbox] Failed to reattach to ${sandboxId}: ${message}`);
+    return null;
+  }
+}
+
+// Helper to get or create the sandbox for a sandbox key
+async function getOrCreateSandbox(
+  sandboxKey: string,
+  owner: SandboxOwner | null
+): Promise<Sandbox> {
+  let existing = sandboxByKey.get(sandboxKey);
+  if (existing && existing.expiresAt <= Date.now()) {
+    sandboxByKey.delete(sandboxKey);
+    existing = undefined;
+  }
+
+  // Without an owner the sandbox lives for this request only, on this instance
+  if (!owner) {
+    if (existing) {
+      return existing.sandbox;
+    }
+  } else {
+    // Convex has the chat's current sandbox, which another instance may have
+    // replaced since this one cached its handle
+    const record = await loadSandboxRecord(owner);
+    if (record) {
+      if (existing?.sandboxId === record.sandboxId) {
+        return existing.sandbox;
+      }
+      const sandbox = await reattachSandbox(record.sandboxId);
+      if (sandbox) {
+        cacheSandbox(sandboxKey, {
+          sandbox,
+          sandboxId: record.sandboxId,
+          createdAt: Date.now(),
+          expiresAt: record.expiresAt,
+        });
+        return sandbox;
+      }
+    }
+    sandboxByKey.delete(sandboxKey);
   }
 
   // Create new sandbox
@@ -57,7 +155,7 @@ async function getOrCreateSandbox(chatId: string): Promise<Sandbox> {
     token?: string;
   } = {
     resources: { vcpus: 2 },
-    timeout: ms("10m") as number,
+    timeout: SANDBOX_TIMEOUT_MS,
     runtime: "node22",
     ports: [],
   };
@@ -94,12 +192,17 @@ async function getOrCreateSandbox(chatId: string): Promise<Sandbox> {
       timeoutPromise,
     ]);
     const sandboxId = sandbox.sandboxId;
+    const expiresAt = Date.now() + SANDBOX_TIMEOUT_MS;
 
-    sandboxByChatId.set(chatId, {
+    cacheSandbox(sandboxKey, {
       sandbox,
       sandboxId,
       createdAt: Date.now(),
+      expiresAt,
     });
+    if (owner) {
+      await saveSandboxRecord(owner, { sandboxId, expiresAt });
+    }
 
     return sandbox;
   } catch (error: unknown) {
@@ -109,9 +212,28 @@ async function getOrCreateSandbox(chatId: string): Promise<Sandbox> {
   }
 }
 
-// Run command tool - simplified to a single primitive that can run any shell command
-export const runSandboxCommandTool = tool({
-  description: `Run a shell command in a sandbox environment. The sandbox is automatically created if it doesn't exist for this conversation.
+// Repository URL of a successful `git clone`, to record with the sandbox
+function getClonedRepositoryUrl(command: string, args: string[]) {
+  const line = command === "git" ? `git ${args.join(" ")}` : args.join(" ");
+  if (!/\bgit\s+clone\b/.test(line)) {
+    return null;
+  }
+  const url = /(?:https?:\/\/|git@)[^\s'"]+/.exec(line)?.[0];
+  // Drop any credentials embedded in the URL
+  return url ? url.replace(/^(https?:\/\/)[^/@]+@/, "$1") : null;
+}
+
+// Run command tool - simplified to a single primitive that can run any shell command.
+// Built per request so the sandbox key comes from the server, not the model:
+// it is the request owner key (see getRequestOwnerKey), which also owns the
+// stored output. With an owner, the sandbox is recorded in Convex so any
+// instance can reattach.
+export function createRunSandboxCommandTool(
+  sandboxKey: string,
+  owner: SandboxOwner | null
+) {
+  return tool({
+    description: `Run a shell command in a sandbox environment. The sandbox is automatically created if it doesn't exist for this conversation.
   
   This tool gives you full access to run any shell command in the sandbox. You can use it to:
   - Clone repositories: command="git", args=["clone", "https://github.com/owner/repo.git"]
@@ -122,6 +244,8 @@ export const runSandboxCommandTool = tool({
   - Run scripts: command="npm", args=["test"] or command="bun", args=["run", "build"]
   - Execute any other shell command or script
   
+  Large output is clipped to its start and end and returned with a "handle"; use readToolResult with that handle to page through or grep the full stdout/stderr. Prefer narrow commands (head, grep, wc) over dumping large files.
+  
   Commands run in the sandbox's working directory (/vercel/sandbox by default). You can use sudo if needed for system-level operations.
   You can also use shell features like pipes, redirects, and chaining by using command="sh", args=["-c", "command1 | command2"].
   
@@ -133,135 +257,155 @@ export const runSandboxCommandTool = tool({
   - Install deps: command="npm", args=["install"]
   - Run with shell: command="sh", args=["-c", "cd src && ls -la"]
   - Chain commands: command="sh", args=["-c", "cat file.txt | grep pattern"]`,
-  inputSchema: zodSchema(
-    z.object({
-      chatId: z
-        .string()
-        .optional()
-        .default("main")
-        .describe(
-          "A unique identifier for this conversation/chat session. Used to maintain sandbox state across multiple operations. Defaults to 'main' if not provided."
-        ),
-      command: z
-        .string()
-        .describe(
-          "The command to run (e.g., 'git', 'ls', 'cat', 'grep', 'npm', 'bun', 'sh'). Use 'sh' with '-c' to run shell commands with pipes, redirects, or chaining."
-        ),
-      args: z
-        .array(z.string())
-        .default([])
-        .describe(
-          "Array of command arguments. For shell commands, use command='sh', args=['-c', 'your shell command']"
-        ),
-      sudo: z
-        .boolean()
-        .default(false)
-        .describe("Whether to run the command with sudo privileges"),
-      workingDirectory: z
-        .string()
-        .optional()
-        .describe(
-          "Optional working directory to run the command in (default: /vercel/sandbox). You can also use 'sh -c' with 'cd' to change directories."
-        ),
-      reason: z
-        .string()
-        .optional()
-        .describe(
-          "Optional explanation of what action is being performed, written in present participle form (e.g., 'reading package.json', 'running tests', 'searching for function definitions'). This describes the LLM's action from the user's perspective."
-        ),
-    })
-  ),
-  execute: async ({ chatId, command, args, sudo, workingDirectory, reason }) => {
-    let retryCount = 0;
-    const maxRetries = 1;
-
-    while (retryCount <= maxRetries) {
-      try {
-        const sandbox = await getOrCreateSandbox(chatId);
-
-        // Build command execution
-        const cmd = sudo ? "sudo" : command;
-        const cmdArgs = sudo ? [command, ...args] : args;
-
-        let fullCommand: string;
-        let result: Awaited<ReturnType<typeof sandbox.runCommand>>;
-
-        // Change directory if specified
-        if (workingDirectory) {
-          // Use sh -c to change directory first
-          fullCommand = `cd ${workingDirectory} && ${command} ${args.join(
-            " "
-          )}`;
-          result = await sandbox.runCommand({
-            cmd: sudo ? "sudo" : "sh",
-            args: sudo ? ["-c", fullCommand] : ["-c", fullCommand],
-            sudo,
-          });
-        } else {
-          fullCommand = `${cmd} ${cmdArgs.join(" ")}`;
-          result = await sandbox.runCommand({
-            cmd,
-            args: cmdArgs,
-            sudo,
+    inputSchema: zodSchema(
+      z.object({
+        command: z
+          .string()
+          .describe(
+            "The command to run (e.g., 'git', 'ls', 'cat', 'grep', 'npm', 'bun', 'sh'). Use 'sh' with '-c' to run shell commands with pipes, redirects, or chaining."
+          ),
+        args: z
+          .array(z.string())
+          .default([])
+          .describe(
+            "Array of command arguments. For shell commands, use command='sh', args=['-c', 'your shell command']"
+          ),
+        sudo: z
+          .boolean()
+          .default(false)
+          .describe("Whether to run the command with sudo privileges"),
+        workingDirectory: z
+          .string()
+          .optional()
+          .describe(
+            "Optional working directory to run the command in (default: /vercel/sandbox). You can also use 'sh -c' with 'cd' to change directories."
+          ),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'reading package.json', 'running tests', 'searching for function definitions'). This describes the LLM's action from the user's perspective."
+          ),
+      })
+    ),
+    execute: async ({ command, args, sudo, workingDirectory }) => {
+      let retryCount = 0;
+      const maxRetries = 1;
+
+      while (retryCount <= maxRetries) {
+        try {
+          const sandbox = await getOrCreateSandbox(sandboxKey, owner);
+
+          // Build command execution
+          const cmd = sudo ? "sudo" : command;
+          const cmdArgs = sudo ? [command, ...args] : args;
+
+          let fullCommand: string;
+          let result: Awaited<ReturnType<typeof sandbox.runCommand>>;
+
+          // Change directory if specified
+          if (workingDirectory) {
+            // Use sh -c to change directory first
+            fullCommand = `cd ${workingDirectory} && ${command} ${args.join(
+              " "
+            )}`;
+            result = await sandbox.runCommand({
+              cmd: sudo ? "sudo" : "sh",
+              args: sudo ? ["-c", fullCommand] : ["-c", fullCommand],
+              sudo,
+            });
+          } else {
+            fullCommand = `${cmd} ${cmdArgs.join(" ")}`;
+            result = await sandbox.runCommand({
+              cmd,
+              args: cmdArgs,
+              sudo,
+            });
+          }
+
+          const stdout = await result.stdout();
+          const stderr = await result.stderr();
+          const stdoutStr = stdout || "";
+          const stderrStr = stderr || "";
+
+          const repositoryUrl = getClonedRepositoryUrl(command, args);
+          if (owner && repositoryUrl && result.exitCode === 0) {
+            await saveSandboxRepository(owner, repositoryUrl);
+          }
+
+          if (stdoutStr.length + stderrStr.length <= TOOL_RESULT_MAX_CHARS) {
+            return {
+              success: result.exitCode === 0,
+              exitCode: result.exitCode,
+              command: fullCommand,
+              stdout: stdoutStr,
+              stderr: stderrStr,
+            };
+          }
+
+          // Keep the full output server-side and return the start and end of each stream
+          const handle = storeToolResult(sandboxKey, "runSandboxCommand", {
+            stdout: stdoutStr,
+            stderr: stderrStr,
           });
-        }
+          const stderrBudget = Math.min(
+            stderrStr.length,
+            Math.floor(TOOL_RESULT_MAX_CHARS / 4)
+          );
+          return {
+            success: result.exitCode === 0,
+            exitCode: result.exitCode,
+            command: fullCommand,
+            stdout: clipText(stdoutStr, TOOL_RESULT_MAX_CHARS - stderrBudget),
+            stderr: clipText(stderrStr, stderrBudget),
+            truncated: true,
+            ...(handle ? { handle } : {}),
+            stdoutChars: stdoutStr.length,
+            stderrChars: stderrStr.length,
+            note: handle
+              ? `Output was too large to return in full. Use readToolResult with handle "${handle}" and path "stdout" or "stderr" to page through or grep it.`
+              : "Output was too large to return or keep. Narrow the command (head, grep, wc) to see the rest.",
+          };
+        } catch (error: unknown) {
+          // Check if this is a sandbox death error (400 or similar)
+          if (isSandboxDeadError(error) && retryCount < maxRetries) {
+            // Remove dead sandbox and retry
+            await handleDeadSandbox(sandboxKey, owner);
+            retryCount++;
+            continue;
+          }
 
-        const stdout = await result.stdout();
-        const stderr = await result.stderr();
-        const stdoutStr = stdout || "";
-        const stderrStr = stderr || "";
-
-        return {
-          success: result.exitCode === 0,
-          exitCode: result.exitCode,
-          command: fullCommand,
-          stdout: stdoutStr,
-          stderr: stderrStr,
-        };
-      } catch (error: unknown) {
-        // Check if this is a sandbox death error (400 or similar)
-        if (isSandboxDeadError(error) && retryCount < maxRetries) {
-          // Remove dead sandbox and retry
-          await handleDeadSandbox(chatId);
-          retryCount++;
-          continue;
+          const message =
+            error instanceof Error ? error.message : "Unknown error";
+          throw new Error(`Failed to run command: ${message}`);
         }
-
-        const message =
-          error instanceof Error ? error.message : "Unknown error";
-        throw new Error(`Failed to run command: ${message}`);
       }
-    }
-
-    throw new Error(`Failed to run command after ${maxRetries + 1} attempts`);
-  },
-});
 
-// Export the single sandbox command tool
-export const sandboxTools = {
-  runCommand: runSandboxCommandTool,
-};
+      throw new Error(`Failed to run command after ${maxRetries + 1} attempts`);
+    },
+  });
+}
 
 // Helper function to clean up sandboxes (can be called periodically or on shutdown)
-export async function cleanupSandbox(chatId: string): Promise<void> {
-  const info = sandboxByChatId.get(chatId);
+export async function cleanupSandbox(sandboxKey: string): Promise<void> {
+  const info = sandboxByKey.get(sandboxKey);
   if (info) {
     try {
       await info.sandbox.stop();
     } catch (error) {
       // Ignore errors
     }
-    sandboxByChatId.delete(chatId);
+    sandboxByKey.delete(sandboxKey);
   }
 }
 
 // Cleanup all sandboxes
 export async function cleanupAllSandboxes(): Promise<void> {
-  const promises = Array.from(sandboxByChatId.values()).map((info) =>
+  const promises = Array.from(sandboxByKey.values()).map((info) =>
     info.sandbox.stop().catch(() => {
       // Ignore errors
     })
   );
   await Promise.all(promises);
-  sandboxByChatId.clear();
+  sandboxByKey.clear();
 }
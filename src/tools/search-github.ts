@@ -1,15 +1,93 @@
 import { tool } from "ai";
 import { zodSchema } from "ai";
 import { z } from "zod";
-import { Octokit } from "@octokit/rest";
+import { createGitHubClient, getRateLimitBudget } from "@/lib/github-client";
+import { boundToolResult } from "@/lib/tool-results";
+
+// GraphQL search query for discussions - there is no REST search endpoint for them
+const DISCUSSIONS_SEARCH_QUERY = `
+  query ($q: String!, $first: Int!, $after: String) {
+    search(query: $q, type: DISCUSSION, first: $first, after: $after) {
+      discussionCount
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        ... on Discussion {
+          id
+          number
+          title
+          bodyText
+          url
+          createdAt
+          updatedAt
+          closed
+          locked
+          upvoteCount
+          author {
+            login
+            avatarUrl
+          }
+          repository {
+            nameWithOwner
+          }
+          category {
+            name
+            emoji
+            description
+          }
+          answerChosenAt
+          answerChosenBy {
+            login
+            avatarUrl
+          }
+          comments {
+            totalCount
+          }
+          reactions {
+            totalCount
+          }
+        }
+      }
+    }
+  }
+`;
+
+type DiscussionSearchResult = {
+  search: {
+    discussionCount: number;
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    nodes: Array<{
+      id: string;
+      number: number;
+      title: string;
+      bodyText: string;
+      url: string;
+      createdAt: string;
+      updatedAt: string;
+      closed: boolean;
+      locked: boolean;
+      upvoteCount: number;
+      author: { login: string; avatarUrl: string } | null;
+      repository: { nameWithOwner: string };
+      category: { name: string; emoji: string; description: string | null };
+      answerChosenAt: string | null;
+      answerChosenBy: { login: string; avatarUrl: string } | null;
+      comments: { totalCount: number };
+      reactions: { totalCount: number };
+    }>;
+  };
+};
 
 // Helper function to create GitHub search tool with token
-export function createGitHubSearchTool(githubToken: string | null) {
+export function createGitHubSearchTool(
+  githubToken: string | null,
+  resultOwner: string
+) {
   // For public searches, we can use unauthenticated requests, but authenticated requests have higher rate limits
   // If no token is provided, we'll still allow searches but with lower rate limits
-  const octokit = githubToken
-    ? new Octokit({ auth: githubToken })
-    : new Octokit();
+  const octokit = createGitHubClient(githubToken);
 
   return tool({
     description: `Powerful GitHub search tool that can search across repositories, issues, pull requests, code, users, organizations, commits, topics, and discussions. 
@@ -31,11 +109,13 @@ export function createGitHubSearchTool(githubToken: string | null) {
   - Repository: Use 'repo' parameter (e.g., 'owner/repo-name')
   - Organization: Use 'org:org-name' in query (e.g., 'org:get-convex')
   - Search type: repositories, issues, code, users, commits, topics, discussions
+  - Topics: searches GitHub topics (e.g. "graphql", "is:featured") rather than repositories
+  - Discussions: searches discussions across GitHub via GraphQL (requires sign-in); use the 'repo' parameter or 'org:' to scope it, and 'cursor' from a previous result for the next page
   - Advanced qualifiers: language, stars, forks, created date, updated date, etc.
   - Issue/PR filters: state (open/closed), author, assignee, labels, etc.
-  - Code search: Use 'code' type to search within file contents
+  - Code search: Use 'code' type to search within file contents; results include highlighted text fragments around each match
   
-  The tool automatically handles pagination and returns comprehensive results.`,
+  The tool automatically handles pagination and returns comprehensive results. Each result includes "rateLimit" with the remaining search budget; searches are queued and spaced automatically (search allows about 30 requests per minute, code search 10).`,
     inputSchema: zodSchema(
       z.object({
         query: z
@@ -55,7 +135,7 @@ export function createGitHubSearchTool(githubToken: string | null) {
           ])
           .default("repositories")
           .describe(
-            "The type of GitHub resource to search for. 'issues' includes both issues and pull requests. 'discussions' requires a 'repo' parameter."
+            "The type of GitHub resource to search for. 'issues' includes both issues and pull requests. 'discussions' requires the user to be signed in."
           ),
         repo: z
           .string()
@@ -73,7 +153,15 @@ export function createGitHubSearchTool(githubToken: string | null) {
           .number()
           .min(1)
           .default(1)
-          .describe("Page number for pagination (default: 1)"),
+          .describe(
+            "Page number for pagination (default: 1). Not used for discussions - pass 'cursor' instead."
+          ),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            "Discussions only: the nextCursor from a previous result to fetch the next page"
+          ),
         sort: z
           .enum(["stars", "forks", "help-wanted-issues", "updated"])
           .optional()
@@ -84,6 +172,12 @@ export function createGitHubSearchTool(githubToken: string | null) {
           .enum(["asc", "desc"])
           .default("desc")
           .describe("Sort order direction (ascending or descending)"),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'searching for repositories', 'finding discussions about auth'). The user is reading this to understand why the tool is being called."
+          ),
       })
     ),
     execute: async ({
@@ -92,6 +186,7 @@ export function createGitHubSearchTool(githubToken: string | null) {
       repo,
       perPage,
       page,
+      cursor,
       sort,
       order,
     }: {
@@ -107,17 +202,22 @@ export function createGitHubSearchTool(githubToken: string | null) {
       repo?: string;
       perPage: number;
       page: number;
+      cursor?: string;
       sort?: "stars" | "forks" | "help-wanted-issues" | "updated";
       order: "asc" | "desc";
+      reason?: string;
     }) => {
       try {
         // Build the search query
+        // Topics aren't scoped to a repository, so the repo filter doesn't apply
         let searchQuery = query;
-        if (repo) {
+        if (repo && type !== "topics") {
           searchQuery = `repo:${repo} ${query}`;
         }
 
         let result: unknown;
+        // Cursor for the next page of GraphQL (discussions) results
+        let nextCursor: string | null = null;
 
         // Execute the appropriate search based on type with type-specific parameters
         switch (type) {
@@ -165,7 +265,11 @@ export function createGitHubSearchTool(githubToken: string | null) {
               per_page: perPage,
               page: page,
             };
-            result = await octokit.rest.search.code(searchParams);
+            // The text-match media type adds highlighted fragments around each match
+            result = await octokit.rest.search.code({
+              ...searchParams,
+              headers: { accept: "application/vnd.github.text-match+json" },
+            });
             break;
           }
           case "users": {
@@ -195,63 +299,37 @@ export function createGitHubSearchTool(githubToken: string | null) {
             break;
           }
           case "topics": {
-            // Topics search uses a different endpoint structure
-            const searchParams: {
-              q: string;
-              per_page: number;
-              page: number;
-              sort?: "stars" | "forks" | "help-wanted-issues" | "updated";
-              order?: "asc" | "desc";
-            } = {
-              q: `${searchQuery} topic:${query}`,
+            result = await octokit.rest.search.topics({
+              q: searchQuery,
               per_page: perPage,
               page: page,
-            };
-            if (sort) {
-              searchParams.sort = sort;
-              searchParams.order = order;
-            }
-            result = await octokit.rest.search.repos(searchParams);
+            });
             break;
           }
-          case "discussions":
-            // Discussions require a repo parameter
-            if (!repo) {
+          case "discussions": {
+            if (!githubToken) {
               throw new Error(
-                "Discussions search requires a 'repo' parameter in format 'owner/repo-name'"
+                "Discussions search uses the GitHub GraphQL API, which requires authentication. Please use the 'Sign in with GitHub' button in the navbar to sign in."
               );
             }
-            const [owner, repoName] = repo.split("/");
-            if (!owner || !repoName) {
-              throw new Error(
-                "Invalid repo format. Expected 'owner/repo-name'"
-              );
-            }
-            // List discussions for the repository using the REST API
-            const discussionsResponse = await octokit.request(
-              "GET /repos/{owner}/{repo}/discussions",
-              {
-                owner,
-                repo: repoName,
-                per_page: perPage,
-                page: page,
-              }
+            const discussions = await octokit.graphql<DiscussionSearchResult>(
+              DISCUSSIONS_SEARCH_QUERY,
+              { q: searchQuery, first: perPage, after: cursor ?? null }
             );
-            // Transform the result to match our format
+            nextCursor = discussions.search.pageInfo.hasNextPage
+              ? discussions.search.pageInfo.endCursor
+              : null;
+            // Match the shape of the REST search responses
             result = {
               data: {
-                total_count: discussionsResponse.data.length,
+                total_count: discussions.search.discussionCount,
                 incomplete_results: false,
-                items: discussionsResponse.data.map(
-                  (discussion: Record<string, unknown>) => ({
-                    ...discussion,
-                    // Add search score for consistency
-                    score: 1.0,
-                  })
-                ),
+                // Nodes of other types come back as empty objects
+                items: discussions.search.nodes.filter((node) => node.id),
               },
             };
             break;
+          }
           default:
             throw new Error(`Unsupported search type: ${type}`);
         }
@@ -268,8 +346,11 @@ export function createGitHubSearchTool(githubToken: string | null) {
           page,
           perPage,
           hasMore:
-            (result as { data: { items: unknown[] } }).data.items.length ===
-            perPage,
+            type === "discussions"
+              ? nextCursor !== null
+              : (result as { data: { items: unknown[] } }).data.items.length ===
+                perPage,
+          ...(type === "discussions" ? { nextCursor } : {}),
           items: (result as { data: { items: unknown[] } }).data.items.map(
             (item: unknown) => {
               // Format items based on type
@@ -485,93 +566,69 @@ export function createGitHubSearchTool(githubToken: string | null) {
                     score: commitItem.score,
                   };
                 }
+                case "topics": {
+                  const topicItem = item as {
+                    name: string;
+                    display_name: string | null;
+                    short_description: string | null;
+                    description: string | null;
+                    created_by: string | null;
+                    released: string | null;
+                    featured: boolean;
+                    curated: boolean;
+                    score: number;
+                  };
+                  return {
+                    name: topicItem.name,
+                    displayName: topicItem.display_name,
+                    shortDescription: topicItem.short_description,
+                    description: topicItem.description?.substring(0, 500),
+                    createdBy: topicItem.created_by,
+                    released: topicItem.released,
+                    featured: topicItem.featured,
+                    curated: topicItem.curated,
+                    url: `https://github.com/topics/${topicItem.name}`,
+                    score: topicItem.score,
+                  };
+                }
                 case "discussions": {
-                  const discussionItem = item as Record<string, unknown>;
+                  const discussionItem =
+                    item as DiscussionSearchResult["search"]["nodes"][number];
                   return {
-                    id: discussionItem.id as number,
-                    number: discussionItem.number as number,
-                    title: discussionItem.title as string,
-                    body: (discussionItem.body as string | null)?.substring(
-                      0,
-                      500
-                    ),
-                    url: discussionItem.html_url as string,
-                    state: discussionItem.state as string,
-                    stateReason: discussionItem.state_reason as string | null,
-                    createdAt: discussionItem.created_at as string,
-                    updatedAt: discussionItem.updated_at as string,
-                    author: discussionItem.user
+                    id: discussionItem.id,
+                    number: discussionItem.number,
+                    title: discussionItem.title,
+                    body: discussionItem.bodyText.substring(0, 500), // Truncate long bodies
+                    url: discussionItem.url,
+                    state: discussionItem.closed ? "closed" : "open",
+                    createdAt: discussionItem.createdAt,
+                    updatedAt: discussionItem.updatedAt,
+                    author: discussionItem.author
                       ? {
-                          login: (discussionItem.user as { login: string })
-                            .login,
-                          avatarUrl: (
-                            discussionItem.user as { avatar_url: string }
-                          ).avatar_url,
+                          login: discussionItem.author.login,
+                          avatarUrl: discussionItem.author.avatarUrl,
                         }
                       : null,
                     repository: {
-                      fullName: (repo || "unknown") as string,
+                      fullName: discussionItem.repository.nameWithOwner,
                     },
-                    category: discussionItem.category
-                      ? {
-                          id: (discussionItem.category as { id: number }).id,
-                          name: (discussionItem.category as { name: string })
-                            .name,
-                          emoji: (discussionItem.category as { emoji: string })
-                            .emoji,
-                          description: (
-                            discussionItem.category as { description: string }
-                          ).description,
-                        }
-                      : null,
-                    answerChosenAt: discussionItem.answer_chosen_at as
-                      | string
-                      | null
-                      | undefined,
-                    answerChosenBy: discussionItem.answer_chosen_by
-                      ? {
-                          login: (
-                            discussionItem.answer_chosen_by as { login: string }
-                          ).login,
-                          avatarUrl: (
-                            discussionItem.answer_chosen_by as {
-                              avatar_url: string;
-                            }
-                          ).avatar_url,
-                        }
-                      : null,
-                    comments: discussionItem.comments as number,
-                    reactions: discussionItem.reactions
+                    category: {
+                      name: discussionItem.category.name,
+                      emoji: discussionItem.category.emoji,
+                      description: discussionItem.category.description,
+                    },
+                    answered: discussionItem.answerChosenAt !== null,
+                    answerChosenAt: discussionItem.answerChosenAt,
+                    answerChosenBy: discussionItem.answerChosenBy
                       ? {
-                          total: (
-                            discussionItem.reactions as { total_count: number }
-                          ).total_count,
-                          plusOne: (
-                            discussionItem.reactions as { "+1": number }
-                          )["+1"],
-                          minusOne: (
-                            discussionItem.reactions as {
-                              "-1": number;
-                            }
-                          )["-1"],
-                          laugh: (discussionItem.reactions as { laugh: number })
-                            .laugh,
-                          hooray: (
-                            discussionItem.reactions as { hooray: number }
-                          ).hooray,
-                          confused: (
-                            discussionItem.reactions as { confused: number }
-                          ).confused,
-                          heart: (discussionItem.reactions as { heart: number })
-                            .heart,
-                          rocket: (
-                            discussionItem.reactions as { rocket: number }
-                          ).rocket,
-                          eyes: (discussionItem.reactions as { eyes: number })
-                            .eyes,
+                          login: discussionItem.answerChosenBy.login,
+                          avatarUrl: discussionItem.answerChosenBy.avatarUrl,
                         }
                       : null,
-                    locked: discussionItem.locked as boolean,
+                    comments: discussionItem.comments.totalCount,
+                    reactions: discussionItem.reactions.totalCount,
+                    upvotes: discussionItem.upvoteCount,
+                    locked: discussionItem.locked,
                   };
                 }
                 default:
@@ -581,7 +638,14 @@ export function createGitHubSearchTool(githubToken: string | null) {
           ),
         };
 
-        return response;
+        return {
+          // The response is an object, so the bounded result is one too
+          ...(boundToolResult(resultOwner, "githubSearch", response) as Record<
+            string,
+            unknown
+          >),
+          rateLimit: getRateLimitBudget(githubToken),
+        };
       } catch (error: unknown) {
         // Handle rate limiting
         if (
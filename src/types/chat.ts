@@ -1,4 +1,11 @@
-import { InferUITools, ToolSet, UIMessage, tool, type UIDataTypes } from "ai";
+import {
+  InferUITools,
+  ToolSet,
+  UIMessage,
+  tool,
+  type LanguageModelUsage,
+  type UIDataTypes,
+} from "ai";
 import { zodSchema } from "ai";
 import { z } from "zod";
 
@@ -11,6 +18,14 @@ const typedTools = {
       z.object({
         endpoint: z.string(),
         params: z.record(z.string(), z.unknown()).optional(),
+        paginate: z
+          .object({
+            maxPages: z.number().default(5),
+            maxItems: z.number().default(300),
+          })
+          .optional(),
+        fields: z.array(z.string()).optional(),
+        cursor: z.string().optional(),
         reason: z
           .string()
           .optional()
@@ -21,11 +36,189 @@ const typedTools = {
     ),
     execute: async () => ({}),
   }),
+  githubSearch: tool({
+    description: "GitHub search tool",
+    inputSchema: zodSchema(
+      z.object({
+        query: z.string(),
+        type: z
+          .enum([
+            "repositories",
+            "issues",
+            "code",
+            "users",
+            "commits",
+            "topics",
+            "discussions",
+          ])
+          .default("repositories"),
+        repo: z.string().optional(),
+        perPage: z.number().default(30),
+        page: z.number().default(1),
+        cursor: z.string().optional(),
+        sort: z
+          .enum(["stars", "forks", "help-wanted-issues", "updated"])
+          .optional(),
+        order: z.enum(["asc", "desc"]).default("desc"),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'searching for repositories', 'finding discussions about auth'). This describes the LLM's action from the user's perspective."
+          ),
+      })
+    ),
+    execute: async () => ({}),
+  }),
+  githubGraphql: tool({
+    description: "GitHub GraphQL tool",
+    inputSchema: zodSchema(
+      z.object({
+        query: z.string(),
+        variables: z.record(z.string(), z.unknown()).optional(),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'fetching review threads', 'listing discussion comments'). This describes the LLM's action from the user's perspective."
+          ),
+      })
+    ),
+    execute: async () => ({}),
+  }),
+  githubPrStatus: tool({
+    description: "GitHub pull request CI status tool",
+    inputSchema: zodSchema(
+      z.object({
+        user: z.string().optional(),
+        repo: z.string().optional(),
+        org: z.string().optional(),
+        state: z.enum(["open", "closed", "all"]).default("open"),
+        draft: z.boolean().optional(),
+        onlyFailing: z.boolean().default(false),
+        limit: z.number().default(20),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'checking CI status of your open PRs'). This describes the LLM's action from the user's perspective."
+          ),
+      })
+    ),
+    execute: async () => ({}),
+  }),
+  githubActionsFailure: tool({
+    description: "GitHub Actions failure diagnosis tool",
+    inputSchema: zodSchema(
+      z.object({
+        owner: z.string(),
+        repo: z.string(),
+        jobId: z.number().optional(),
+        checkRunId: z.number().optional(),
+        runId: z.number().optional(),
+        tailLines: z.number().default(60),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'reading the failing test job log'). This describes the LLM's action from the user's perspective."
+          ),
+      })
+    ),
+    execute: async () => ({}),
+  }),
+  repoTree: tool({
+    description: "Repository tree tool",
+    inputSchema: zodSchema(
+      z.object({
+        owner: z.string(),
+        repo: z.string(),
+        ref: z.string().optional(),
+        path: z.string().optional(),
+        include: z.array(z.string()).optional(),
+        exclude: z.array(z.string()).optional(),
+        maxDepth: z.number().default(4),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'getting an overview of the repository layout'). This describes the LLM's action from the user's perspective."
+          ),
+      })
+    ),
+    execute: async () => ({}),
+  }),
+  fileHistory: tool({
+    description: "File history tool",
+    inputSchema: zodSchema(
+      z.object({
+        owner: z.string(),
+        repo: z.string(),
+        path: z.string(),
+        ref: z.string().optional(),
+        startLine: z.number().optional(),
+        endLine: z.number().optional(),
+        limit: z.number().default(10),
+        blame: z.boolean().default(false),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'tracing changes to the auth handler'). This describes the LLM's action from the user's perspective."
+          ),
+      })
+    ),
+    execute: async () => ({}),
+  }),
+  compareRefs: tool({
+    description: "Compare refs tool",
+    inputSchema: zodSchema(
+      z.object({
+        owner: z.string(),
+        repo: z.string(),
+        base: z.string().optional(),
+        head: z.string().optional(),
+        pullNumber: z.number().optional(),
+        include: z.array(z.string()).optional(),
+        exclude: z.array(z.string()).optional(),
+        summaryOnly: z.boolean().default(false),
+        maxHunksPerFile: z.number().default(10),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'comparing the last two releases', 'reviewing the pull request diff'). This describes the LLM's action from the user's perspective."
+          ),
+      })
+    ),
+    execute: async () => ({}),
+  }),
+  releaseNotes: tool({
+    description: "Release notes tool",
+    inputSchema: zodSchema(
+      z.object({
+        owner: z.string(),
+        repo: z.string(),
+        from: z.string().optional(),
+        to: z.string().optional(),
+        package: z.string().optional(),
+        changelogPath: z.string().optional(),
+        includePrereleases: z.boolean().default(false),
+        limit: z.number().default(20),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'checking breaking changes between v4 and v5'). This describes the LLM's action from the user's perspective."
+          ),
+      })
+    ),
+    execute: async () => ({}),
+  }),
   runSandboxCommand: tool({
     description: "Sandbox command tool",
     inputSchema: zodSchema(
       z.object({
-        chatId: z.string().optional(),
         command: z.string(),
         args: z.array(z.string()).default([]),
         sudo: z.boolean().default(false),
@@ -40,14 +233,57 @@ const typedTools = {
     ),
     execute: async () => ({}),
   }),
+  readToolResult: tool({
+    description: "Read stored tool result",
+    inputSchema: zodSchema(
+      z.object({
+        handle: z.string(),
+        mode: z.enum(["page", "grep", "fields"]).default("page"),
+        path: z.string().optional(),
+        offset: z.number().default(0),
+        limit: z.number().default(200),
+        pattern: z.string().optional(),
+        ignoreCase: z.boolean().default(true),
+        context: z.number().default(0),
+        fields: z.array(z.string()).optional(),
+        reason: z
+          .string()
+          .optional()
+          .describe(
+            "Optional explanation of what action is being performed, written in present participle form (e.g., 'paging through search results', 'searching command output for errors'). This describes the LLM's action from the user's perspective."
+          ),
+      })
+    ),
+    execute: async () => ({}),
+  }),
 } satisfies ToolSet;
 
 // Infer the tools type
 export type AppTools = InferUITools<typeof typedTools>;
 
+// Metadata attached to assistant messages by /api/chat
+export type AppMessageMetadata = {
+  modelId?: string;
+  // Total usage across all steps of the turn, sent when the turn finishes
+  usage?: LanguageModelUsage;
+  // Input + output tokens of the last step, i.e. how full the context window is
+  contextTokens?: number;
+  // Shown above the answer, e.g. when a requested feature was turned off
+  notice?: string;
+};
+
+// Data parts streamed alongside the answer
+export type AppDataParts = {
+  // Transient message for the user, e.g. when the chat could not be saved
+  notice: { message: string };
+};
+
 // Create the custom UIMessage type with our tools
-// Use Record<string, never> for empty data types
-export type AppUIMessage = UIMessage<unknown, Record<string, never>, AppTools>;
+export type AppUIMessage = UIMessage<
+  AppMessageMetadata,
+  AppDataParts,
+  AppTools
+>;
 
 // Export helper types for tool parts with proper typing
 export type AppToolUIPart = Extract<